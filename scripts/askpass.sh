@@ -0,0 +1,4 @@
+#!/bin/sh
+# Forwards git and ssh credential prompts to the StGit extension, which
+# shows them in VS Code. See src/askpass.ts.
+ELECTRON_RUN_AS_NODE=1 exec "$STGIT_ASKPASS_NODE" "$STGIT_ASKPASS_MAIN" "$@"
@@ -0,0 +1,228 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { workspace, window, commands } from 'vscode';
+import { openAndShowDiffDocument } from './diff-provider';
+import { showStatusMessage } from './extension';
+import { blameLines } from './git';
+import { RepositoryInfo } from './repo';
+import { editPatchMessage, onDidReloadPatches, reloadStGit } from './stgit';
+import { run, runAndReportErrors } from './util';
+
+interface AnnotatedPatch {
+    label: string;
+    sha: string;
+    message: string;
+}
+
+interface Annotation {
+    version: number;
+    // Patch owning each line, 'history' or null if uncommitted
+    lines: (AnnotatedPatch | 'history' | null)[];
+}
+
+const UNCOMMITTED = '0'.repeat(40);
+
+class PatchAnnotator {
+    static instance: PatchAnnotator | null;
+
+    private enabled = false;
+    private annotations = new Map<vscode.TextDocument, Annotation>();
+    // Patches keyed by commit, fetched again when the stack is reloaded
+    private patches: Promise<Map<string, AnnotatedPatch>> | null = null;
+    private updateTimer: NodeJS.Timeout | null = null;
+
+    private readonly patchDecoration = window.createTextEditorDecorationType({
+        after: {
+            margin: '0 0 0 3em',
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        },
+        isWholeLine: true,
+    });
+    private readonly historyDecoration = window.createTextEditorDecorationType({
+        dark: { color: "#777", },
+        light: { color: "#999", },
+    });
+
+    constructor(context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            this,
+            commands.registerCommand(
+                'stgit.annotatePatches', () => this.toggle()),
+            commands.registerCommand('stgit.annotation.showDiff',
+                (sha: string) => this.showDiff(sha)),
+            commands.registerCommand('stgit.annotation.gotoPatch',
+                (label: string) => this.gotoPatch(label)),
+            commands.registerCommand('stgit.annotation.editMessage',
+                (label: string) => editPatchMessage(label)),
+            vscode.languages.registerHoverProvider({ scheme: 'file' }, {
+                provideHover: (doc, pos) => this.provideHover(doc, pos),
+            }),
+            window.onDidChangeActiveTextEditor(() => this.scheduleUpdate()),
+            workspace.onDidChangeTextDocument((ev) => {
+                if (ev.document === window.activeTextEditor?.document)
+                    this.scheduleUpdate();
+            }),
+            workspace.onDidCloseTextDocument(
+                (doc) => this.annotations.delete(doc)),
+            onDidReloadPatches(() => {
+                this.patches = null;
+                this.scheduleUpdate();
+            }),
+        );
+    }
+
+    dispose() {
+        if (this.updateTimer)
+            clearTimeout(this.updateTimer);
+        this.patchDecoration.dispose();
+        this.historyDecoration.dispose();
+        PatchAnnotator.instance = null;
+    }
+
+    private toggle() {
+        this.enabled = !this.enabled;
+        this.annotations.clear();
+        this.patches = null;
+        if (this.enabled)
+            this.update();
+        else
+            window.visibleTextEditors.forEach(e => this.clearDecorations(e));
+        showStatusMessage(
+            `Patch annotations ${this.enabled ? 'enabled' : 'disabled'}`);
+    }
+
+    private scheduleUpdate() {
+        if (!this.enabled)
+            return;
+        if (this.updateTimer)
+            clearTimeout(this.updateTimer);
+        this.updateTimer = setTimeout(() => this.update(), 500);
+    }
+
+    private clearDecorations(editor: vscode.TextEditor) {
+        editor.setDecorations(this.patchDecoration, []);
+        editor.setDecorations(this.historyDecoration, []);
+    }
+
+    private fetchPatches(): Promise<Map<string, AnnotatedPatch>> {
+        if (!this.patches)
+            this.patches = this.readPatches();
+        return this.patches;
+    }
+
+    private async readPatches(): Promise<Map<string, AnnotatedPatch>> {
+        const series = await run('stg', ['series', '-A', '--noprefix']);
+        const labels = series.split("\n").filter(x => x);
+        const patches = await Promise.all(labels.map(async (label) => {
+            const sha = await run('stg', ['id', '--', label]);
+            const message = await run(
+                'git', ['show', '-s', '--format=%B', sha]);
+            return { label, sha, message };
+        }));
+        return new Map(patches.map(p => [p.sha, p]));
+    }
+
+    private async annotate(
+        doc: vscode.TextDocument
+    ): Promise<Annotation | null> {
+        const repo = await RepositoryInfo.getSelectedRepo();
+        if (!repo || doc.uri.scheme !== 'file')
+            return null;
+        const file = path.relative(repo.topLevelDir, doc.uri.fsPath);
+        const base = await run('stg', ['id', '--', '{base}']);
+        if (!base)
+            return null;
+        const version = doc.version;
+        const [patches, blame] = await Promise.all([
+            this.fetchPatches(),
+            blameLines(file, `${base}..HEAD`, doc.getText()),
+        ]);
+        const lines = blame.map(sha => {
+            if (sha === UNCOMMITTED)
+                return null;
+            return patches.get(sha) ?? 'history';
+        });
+        return { version, lines };
+    }
+
+    private async update() {
+        const editor = window.activeTextEditor;
+        if (!this.enabled || !editor)
+            return;
+        const doc = editor.document;
+        const annotation = await this.annotate(doc);
+        if (!annotation || doc.version !== annotation.version) {
+            this.clearDecorations(editor);
+            return;
+        }
+        this.annotations.set(doc, annotation);
+
+        const patchRanges: vscode.DecorationOptions[] = [];
+        const historyRanges: vscode.Range[] = [];
+        annotation.lines.forEach((owner, i) => {
+            if (owner === 'history') {
+                historyRanges.push(new vscode.Range(i, 0, i, 0));
+            } else if (owner && owner !== annotation.lines[i - 1]) {
+                patchRanges.push({
+                    range: new vscode.Range(i, 0, i, 0),
+                    renderOptions: { after: { contentText: owner.label } },
+                });
+            }
+        });
+        for (const e of window.visibleTextEditors) {
+            if (e.document !== doc)
+                continue;
+            e.setDecorations(this.patchDecoration, patchRanges);
+            e.setDecorations(this.historyDecoration, historyRanges.map(
+                r => doc.lineAt(r.start.line).range));
+        }
+    }
+
+    private provideHover(
+        doc: vscode.TextDocument, pos: vscode.Position
+    ): vscode.Hover | null {
+        const annotation = this.annotations.get(doc);
+        if (!this.enabled || annotation?.version !== doc.version)
+            return null;
+        const owner = annotation.lines[pos.line];
+        if (!owner || owner === 'history')
+            return null;
+        const link = (title: string, command: string, args: string[]) => {
+            const s = encodeURIComponent(JSON.stringify(args));
+            return `[${title}](command:stgit.annotation.${command}?${s})`;
+        };
+        const md = new vscode.MarkdownString();
+        md.isTrusted = true;
+        md.appendMarkdown(`**${owner.label}** \`${owner.sha.slice(0, 8)}\``);
+        md.appendCodeblock(owner.message, 'text');
+        md.appendMarkdown([
+            link('Show Diff', 'showDiff', [owner.sha]),
+            link('Goto Patch', 'gotoPatch', [owner.label]),
+            link('Edit Message', 'editMessage', [owner.label]),
+        ].join(' | '));
+        return new vscode.Hover(md);
+    }
+
+    private showDiff(sha: string) {
+        const uri = vscode.Uri.parse(
+            `stgit-diff:///diff-${sha.slice(0, 5)}#sha=${sha}`);
+        openAndShowDiffDocument(uri, {
+            viewColumn: vscode.ViewColumn.Beside,
+            preserveFocus: true,
+        });
+    }
+
+    private async gotoPatch(label: string) {
+        await runAndReportErrors('stg', ['goto', '--', label]);
+        this.patches = null;
+        reloadStGit();
+        this.scheduleUpdate();
+    }
+}
+
+export function registerPatchAnnotator(context: vscode.ExtensionContext) {
+    PatchAnnotator.instance = new PatchAnnotator(context);
+}
@@ -0,0 +1,37 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+// Askpass helper run by git and ssh. The prompt is forwarded to the
+// extension over the IPC socket in STGIT_ASKPASS_HANDLE and the answer is
+// written to stdout. Runs outside of VS Code, so 'vscode' must not be used.
+
+import * as http from 'http';
+
+function fail(msg: string): never {
+    process.stderr.write(`stgit askpass: ${msg}\n`);
+    process.exit(1);
+}
+
+function main(argv: string[]) {
+    const handle = process.env['STGIT_ASKPASS_HANDLE'];
+    if (!handle)
+        fail("STGIT_ASKPASS_HANDLE not set");
+    const req = http.request({
+        socketPath: handle,
+        path: '/',
+        method: 'POST',
+    }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => {
+            if (res.statusCode !== 200)
+                fail("prompt cancelled");
+            process.stdout.write(Buffer.concat(chunks).toString('utf8'));
+            process.stdout.write("\n");
+        });
+    });
+    req.on('error', (err) => fail(err.message));
+    req.end(JSON.stringify({ prompt: argv[2] ?? "" }));
+}
+
+main(process.argv);
@@ -0,0 +1,138 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { window } from 'vscode';
+import { getStGitConfig } from './config';
+import { log } from './extension';
+
+/**
+ * Server answering credential prompts from git and ssh. The askpass helper
+ * (scripts/askpass.sh) connects to the server over a local socket and the
+ * prompt is shown in an input box.
+ */
+class Askpass {
+    static instance: Askpass | null;
+
+    private server: http.Server | null = null;
+    private handle: Promise<string | null> | null = null;
+
+    constructor(
+        private readonly extensionPath: string,
+        context: vscode.ExtensionContext,
+    ) {
+        context.subscriptions.push(this);
+    }
+
+    dispose() {
+        this.server?.close();
+        Askpass.instance = null;
+    }
+
+    private listen(): Promise<string | null> {
+        const id = crypto.randomBytes(8).toString('hex');
+        const handle = process.platform === 'win32' ?
+            `\\\\.\\pipe\\stgit-askpass-${id}` :
+            path.join(os.tmpdir(), `stgit-askpass-${id}.sock`);
+        const server = http.createServer(
+            (req, res) => this.handleRequest(req, res));
+        this.server = server;
+        return new Promise((resolve) => {
+            server.on('error', (err) => {
+                log(`askpass: ${err.message}`);
+                resolve(null);
+            });
+            server.listen(handle, () => resolve(handle));
+        });
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', async () => {
+            let prompt = "";
+            try {
+                prompt = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+                    .prompt ?? "";
+            } catch (e) {
+                res.writeHead(400);
+                res.end();
+                return;
+            }
+            const answer = await window.showInputBox({
+                title: 'Git Credentials',
+                prompt: prompt,
+                password: /password|passphrase|pin/i.test(prompt),
+                ignoreFocusOut: true,
+            });
+            res.writeHead(answer === undefined ? 403 : 200);
+            res.end(answer ?? "");
+        });
+    }
+
+    async env(): Promise<{ [key: string]: string }> {
+        const config = getStGitConfig();
+        let program = config.askpassProgram;
+        const env: { [key: string]: string } = {};
+        if (!program) {
+            if (!config.useAskpass || process.platform === 'win32')
+                return {};
+            if (!this.handle)
+                this.handle = this.listen();
+            const handle = await this.handle;
+            if (!handle)
+                return {};
+            program = path.join(this.extensionPath, 'scripts', 'askpass.sh');
+            env.STGIT_ASKPASS_NODE = process.execPath;
+            env.STGIT_ASKPASS_MAIN = path.join(
+                this.extensionPath, 'out', 'askpass-main.js');
+            env.STGIT_ASKPASS_HANDLE = handle;
+        }
+        return {
+            ...env,
+            GIT_ASKPASS: program,
+            SSH_ASKPASS: program,
+            SSH_ASKPASS_REQUIRE: 'force',
+            // Older ssh versions only use SSH_ASKPASS if DISPLAY is set
+            DISPLAY: process.env.DISPLAY || ':0',
+            GIT_TERMINAL_PROMPT: '0',
+        };
+    }
+}
+
+/**
+ * Environment which makes git and ssh prompt for credentials in VS Code.
+ * @returns environment variables, empty if askpass is disabled
+ */
+export async function getAskpassEnv(): Promise<{ [key: string]: string }> {
+    return await Askpass.instance?.env() ?? {};
+}
+
+/**
+ * Describe why a git command accessing a remote failed if the failure was
+ * caused by missing or rejected credentials.
+ */
+export function authenticationErrorMessage(
+    stderr: string
+): string | undefined {
+    const patterns = [
+        /Authentication failed/i,
+        /Permission denied \(/,
+        /could not read (Username|Password)/,
+        /Invalid username or password/i,
+        /HTTP Basic: Access denied/,
+    ];
+    if (!patterns.some(re => re.test(stderr)))
+        return undefined;
+    const line = stderr.split("\n").find(
+        s => patterns.some(re => re.test(s)));
+    return `Credentials rejected by the remote: ${line?.trim()}`;
+}
+
+export function registerAskpass(context: vscode.ExtensionContext) {
+    Askpass.instance = new Askpass(context.extensionPath, context);
+}
@@ -12,6 +12,15 @@ class StGitConfig {
     gitExecutable = "git";
     stgitExecutable = "stg";
     showUnknownFiles = false;
+    autoReload = true;
+    useAskpass = true;
+    testCommand = "";
+    askpassProgram = "";
+    commandTimeouts: { [subcommand: string]: number } = {};
+    subjectMaxLength = 50;
+    bodyMaxLineLength = 72;
+    subjectPattern = "";
+    requiredTrailers: string[] = [];
 
     private readonly configChanged = new vscode.EventEmitter<void>();
 
@@ -41,6 +50,18 @@ class StGitConfig {
         this.gitExecutable = config.get('gitExecutable') ?? "git";
         this.stgitExecutable = config.get('stgitExecutable') ?? "stg";
         this.showUnknownFiles = config.get('showUnknownFiles', false);
+        this.autoReload = config.get('autoReload', true);
+        this.useAskpass = config.get('useAskpass', true);
+        this.testCommand = config.get('testCommand', "");
+        this.askpassProgram = config.get('askpassProgram', "");
+        this.commandTimeouts = config.get('commandTimeouts', {});
+        this.subjectMaxLength = config.get(
+            'commitMessage.subjectMaxLength', 50);
+        this.bodyMaxLineLength = config.get(
+            'commitMessage.bodyMaxLineLength', 72);
+        this.subjectPattern = config.get('commitMessage.subjectPattern', "");
+        this.requiredTrailers = config.get(
+            'commitMessage.requiredTrailers', []);
     }
 
     private trackStGitVersion() {
@@ -57,6 +78,16 @@ class StGitConfig {
         reportStGitVersion();
     }
 
+    /**
+     * Timeout for a command, as configured for either 'stg <subcommand>',
+     * '<subcommand>' or '*'.
+     * @returns timeout in seconds, or 0 for no timeout
+     */
+    commandTimeout(command: string, subcommand: string): number {
+        const t = this.commandTimeouts;
+        return t[`${command} ${subcommand}`] ?? t[subcommand] ?? t['*'] ?? 0;
+    }
+
     onDidChangeConfiguration(callback: () => void): vscode.Disposable {
         return this.configChanged.event(callback);
     }
@@ -4,11 +4,57 @@
 import * as vscode from 'vscode';
 import { workspace, commands, window } from 'vscode';
 import { openAndShowDiffDocument, refreshDiff } from './diff-provider';
-import { info } from './extension';
-import { reloadIndexAndWorkTree } from './stgit';
+import { info, showStatusMessage } from './extension';
+import { moveHunk, reloadIndexAndWorkTree, splitPatch } from './stgit';
 import { isUnmerged, updateIndex } from './git';
 import { runCommand } from './util';
 import { RepositoryInfo } from './repo';
+import { wordDiff } from './word-diff';
+
+const SPLITS = /,splits=([0-9;]*)/;
+const PICKS = /,picks=([0-9:;]*)/;
+const GROUP = /,group=([0-9]*)/;
+const SPLITPATCH = /,splitpatch=([^,]*)/;
+
+/**
+ * How a hunk is applied: 'apply' its changes, 'revert' them, or 'reapply'
+ * them to a text from which they were reverted.
+ */
+export type HunkApplyMode = 'apply' | 'revert' | 'reapply';
+
+interface TextLines {
+    readonly lineCount: number;
+    lineAt(line: number): { readonly text: string };
+}
+
+interface EditedHunk {
+    // File the hunk applies to
+    path: string,
+    // Line in the diff buffer where the hunk was defined
+    line: number,
+}
+
+interface SplitFile {
+    lines: string[],
+    usesCRLF: boolean,
+}
+
+/**
+ * Parse the hunks picked in a split buffer.
+ * @param frag fragment of the split buffer uri
+ * @returns map from hunk line to the patch group of the hunk
+ */
+function parsePicks(frag: string): Map<number, number> {
+    const spec = frag.match(PICKS)?.[1] ?? "";
+    return new Map(spec.split(";").filter(x => x).map(
+        s => s.split(":").map(x => parseInt(x)) as [number, number]));
+}
+
+function withPicks(frag: string, picks: Map<number, number>): string {
+    const spec = [...picks].sort((a, b) => a[0] - b[0]).map(
+        ([line, group]) => `${line}:${group}`).join(";");
+    return frag.replace(PICKS, "") + (spec ? `,picks=${spec}` : "");
+}
 
 function locateLineInDoc(
     doc: vscode.TextDocument,
@@ -30,10 +76,7 @@ class DiffHeader {
         public readonly toPath: string,
     ) { }
 
-    static fromLine(
-        doc: vscode.TextDocument,
-        line: number
-    ): DiffHeader | null {
+    static fromLine(doc: TextLines, line: number): DiffHeader | null {
         let start = line;
         for (; start >= 0; start--) {
             if (doc.lineAt(start).text.startsWith("--- "))
@@ -50,7 +93,7 @@ class DiffHeader {
             const s = path.slice(4);
             if (!s.startsWith("/"))
                 return s.slice(s.indexOf("/") + 1);
-            return path;
+            return s;
         }
         const fromPath = stripPath(fromStr);
         const toPath = stripPath(toStr);
@@ -59,7 +102,7 @@ class DiffHeader {
     }
 }
 
-class HunkText {
+export class HunkText {
     constructor(
         public readonly srcLine: number,
         public readonly text: readonly string[],
@@ -93,6 +136,53 @@ class HunkText {
             new HunkText(srcLine, lines, lineMap, missingNewline) : null;
     }
 
+    /**
+     * Create texts for applying only the selected changes of a hunk.
+     * Unselected removals become context and unselected additions are
+     * dropped.
+     * @param hunkLines lines of the hunk, excluding the '@@' line
+     * @param srcLine first line of the text the changes apply to
+     * @param selected predicate telling if a hunk line is selected
+     * @param reverse create texts reverting the selected changes
+     * @returns source and destination texts, or null if no changed line
+     *  is selected
+     */
+    static fromSelection(
+        hunkLines: readonly string[],
+        srcLine: number,
+        selected: (i: number) => boolean,
+        reverse: boolean,
+    ): [HunkText, HunkText] | null {
+        const [oldMarker, newMarker] = reverse ? ['+', '-'] : ['-', '+'];
+        const src: string[] = [];
+        const dest: string[] = [];
+        let [srcMissingNewline, destMissingNewline] = [false, false];
+        let changes = 0;
+        hunkLines.forEach((s, i) => {
+            const inSrc = s[0] === ' ' || s[0] === oldMarker;
+            const inDest = s[0] === ' ' ||
+                (s[0] === oldMarker && !selected(i)) ||
+                (s[0] === newMarker && selected(i));
+            if (s[0] !== ' ' && inSrc !== inDest)
+                changes++;
+            const noNewline = hunkLines[i + 1]?.startsWith('\\') ?? false;
+            if (inSrc) {
+                src.push(s.slice(1));
+                srcMissingNewline = noNewline;
+            }
+            if (inDest) {
+                dest.push(s.slice(1));
+                destMissingNewline = noNewline;
+            }
+        });
+        if (!changes)
+            return null;
+        return [
+            new HunkText(srcLine, src, [], srcMissingNewline),
+            new HunkText(srcLine, dest, [], destMissingNewline),
+        ];
+    }
+
     private matchesAtLine(
         doc: { numLines: number, getLine: (line: number) => string },
         line: number
@@ -132,6 +222,24 @@ class HunkText {
         });
     }
 
+    /**
+     * Replace this text with another text in a list of lines.
+     * @param lines lines to modify (in place)
+     * @param toText replacement text
+     * @returns false if this text was not found in lines
+     */
+    replaceInText(lines: string[], toText: HunkText): boolean {
+        const matchLine = this.findInText(lines);
+        if (matchLine < 0)
+            return false;
+        lines.splice(matchLine, this.text.length, ...toText.text);
+        if (this.missingNewline && !toText.missingNewline)
+            lines.push("");
+        else if (toText.missingNewline && !this.missingNewline)
+            lines.pop();
+        return true;
+    }
+
     /**
      * Find HunkText instance in document.
      * @param doc Text document in which to search for this TextHunk
@@ -145,7 +253,7 @@ class HunkText {
     }
 }
 
-class Hunk {
+export class Hunk {
     /**
      * Creates a new Hunk.
      * @param line line number where the hunk is defined
@@ -160,7 +268,7 @@ class Hunk {
         public readonly numHunkLines: number,
     ) { }
 
-    static fromLine(doc: vscode.TextDocument, line: number): Hunk | null {
+    static fromLine(doc: TextLines, line: number): Hunk | null {
 
         const atStr = doc.lineAt(line).text;
         if (!atStr.startsWith("@@ ") || !atStr.includes("@@", 3))
@@ -183,6 +291,26 @@ class Hunk {
         return new Hunk(line, fromText, toText, hunkLines.length + 1);
     }
 
+    /**
+     * Texts for applying the changes of the hunk within a range of lines.
+     * @param doc document defining the hunk
+     * @param start first selected line in doc
+     * @param end last selected line in doc
+     * @param reverse create texts reverting the changes
+     */
+    selectionTexts(
+        doc: TextLines, start: number, end: number, reverse: boolean
+    ): [HunkText, HunkText] | null {
+        const first = this.line + 1;
+        const hunkLines: string[] = [];
+        for (let i = first; i < this.line + this.numHunkLines; i++)
+            hunkLines.push(doc.lineAt(i).text);
+        const srcLine = reverse ?
+            this.toText.srcLine : this.fromText.srcLine;
+        return HunkText.fromSelection(hunkLines, srcLine,
+            i => start <= first + i && first + i <= end, reverse);
+    }
+
     locate(doc: vscode.TextDocument) {
         // Delay matching an empty text, since this will always succeed. This
         // case occurs when text is added to an empty file.
@@ -197,9 +325,176 @@ class Hunk {
     }
 }
 
+/**
+ * Parse an edited hunk, recounting the lines in the '@@' header.
+ * @returns the hunk or a message describing the first malformed line
+ */
+export function parseEditedHunk(text: string): Hunk | string {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    if (lines.length > 1 && lines[lines.length - 1] === '')
+        lines.pop();
+    const REGEXP = /^@@ -([0-9]+)(,[0-9]+)? \+([0-9]+)(,[0-9]+)? @@(.*)$/;
+    const m = lines[0].match(REGEXP);
+    if (!m)
+        return "Line 1: malformed '@@' header";
+    let [fromCount, toCount, changes] = [0, 0, 0];
+    for (let i = 1; i < lines.length; i++) {
+        // Editors may strip the space of empty context lines
+        if (lines[i] === '')
+            lines[i] = ' ';
+        const s = lines[i];
+        if (s[0] === ' ') {
+            fromCount++;
+            toCount++;
+        } else if (s[0] === '-') {
+            fromCount++;
+            changes++;
+        } else if (s[0] === '+') {
+            toCount++;
+            changes++;
+        } else if (s[0] !== '\\' || i === 1 || lines[i - 1][0] === '\\') {
+            return `Line ${i + 1}: expected a line starting with` +
+                " ' ', '+' or '-'";
+        }
+    }
+    if (!changes)
+        return "The hunk contains no changes";
+    lines[0] = `@@ -${m[1]},${fromCount} +${m[3]},${toCount} @@${m[5]}`;
+    const doc: TextLines = {
+        lineCount: lines.length,
+        lineAt: (i: number) => ({ text: lines[i] }),
+    };
+    return Hunk.fromLine(doc, 0) ?? "Line 1: malformed '@@' header";
+}
+
+/**
+ * A hunk of a diff together with the file it applies to.
+ */
+export class FileHunk {
+    private constructor(
+        private readonly header: DiffHeader,
+        private readonly hunk: Hunk,
+        readonly lines: readonly string[],
+        // Lines whose changes are used, if not all lines
+        private readonly selected?: (i: number) => boolean,
+    ) { }
+
+    static fromDiff(diff: string): FileHunk[] {
+        const lines = diff.split('\n');
+        const doc: TextLines = {
+            lineCount: lines.length,
+            lineAt: (i: number) => ({ text: lines[i] }),
+        };
+        const result: FileHunk[] = [];
+        lines.forEach((s, i) => {
+            const hunk = s.startsWith("@@") && FileHunk.fromLine(doc, i);
+            if (hunk)
+                result.push(hunk);
+        });
+        return result;
+    }
+
+    /**
+     * Parse the hunk defined at a line of a diff.
+     * @param doc diff document
+     * @param line line of the '@@' header of the hunk
+     */
+    static fromLine(doc: TextLines, line: number): FileHunk | null {
+        const hunk = Hunk.fromLine(doc, line);
+        const header = DiffHeader.fromLine(doc, line);
+        if (!hunk || !header)
+            return null;
+        const hunkLines: string[] = [];
+        for (let i = line + 1; i < line + hunk.numHunkLines; i++)
+            hunkLines.push(doc.lineAt(i).text);
+        return new FileHunk(header, hunk, hunkLines);
+    }
+
+    /**
+     * Restrict the hunk to the changes of some of its lines.
+     * @param selected predicate telling if a line of lines is selected
+     * @returns the restricted hunk, or null if no changed line is selected
+     */
+    withSelection(selected: (i: number) => boolean): FileHunk | null {
+        const changed = this.lines.some(
+            (s, i) => (s[0] === '+' || s[0] === '-') && selected(i));
+        return changed ?
+            new FileHunk(this.header, this.hunk, this.lines, selected) : null;
+    }
+
+    get path() {
+        return this.header.toPath;
+    }
+    get srcPath() {
+        return this.header.fromPath;
+    }
+    /** First line (0-based) of the hunk in the source file */
+    get srcLine() {
+        return this.hunk.fromText.srcLine;
+    }
+
+    /**
+     * Lines of the source file modified by this hunk. For hunks which only
+     * add lines, the surrounding context lines are returned instead.
+     */
+    get srcLines(): number[] {
+        const changed: number[] = [];
+        const context: number[] = [];
+        let line = this.hunk.fromText.srcLine;
+        for (const s of this.lines) {
+            if (s[0] === '-')
+                changed.push(line++);
+            else if (s[0] === ' ')
+                context.push(line++);
+        }
+        return changed.length ? changed : context;
+    }
+
+    private texts(reverse: boolean): [HunkText, HunkText] {
+        const { fromText, toText } = this.hunk;
+        if (!this.selected)
+            return reverse ? [toText, fromText] : [fromText, toText];
+        const srcLine = reverse ? toText.srcLine : fromText.srcLine;
+        return HunkText.fromSelection(
+            this.lines, srcLine, this.selected, reverse)!;
+    }
+
+    /**
+     * Apply the hunk to a text.
+     * @param text file contents
+     * @param mode how the hunk is applied
+     * @returns the patched text or null if the hunk does not apply
+     */
+    applyTo(text: string, mode: HunkApplyMode = 'apply'): string | null {
+        const usesCRLF = text.includes('\r\n');
+        const lines = text.replace(/\r\n/g, '\n').split('\n');
+        const [fromText, toText] = this.texts(mode !== 'apply');
+        const applied = mode === 'reapply' ?
+            toText.replaceInText(lines, fromText) :
+            fromText.replaceInText(lines, toText);
+        if (!applied)
+            return null;
+        return lines.join(usesCRLF ? '\r\n' : '\n');
+    }
+}
+
 class DiffMode {
     static instance: DiffMode | null;
 
+    // Scratch documents in which hunks are edited
+    private editedHunks = new Map<vscode.TextDocument, EditedHunk>();
+
+    private readonly removedWordsDecoration =
+        window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor(
+                'diffEditor.removedTextBackground'),
+        });
+    private readonly addedWordsDecoration =
+        window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor(
+                'diffEditor.insertedTextBackground'),
+        });
+
     constructor(context: vscode.ExtensionContext) {
         function cmd(cmd: string, func: (editor: vscode.TextEditor) => void) {
             return commands.registerTextEditorCommand(`sdiff.${cmd}`, func);
@@ -210,19 +505,99 @@ class DiffMode {
             cmd('revertHunk', () => this.revertHunk()),
             cmd('stageHunk', () => this.stageHunk()),
             cmd('unstageHunk', () => this.unstageHunk()),
+            cmd('stageLines', () => this.stageLines()),
+            cmd('unstageLines', () => this.unstageLines()),
+            cmd('revertLines', () => this.revertLines()),
+            cmd('editHunk', (e) => this.editHunk(e)),
+            cmd('completeHunkEdit', (e) => this.completeHunkEdit(e)),
+            cmd('moveHunkToPatch', (e) => this.moveHunkToPatch(e)),
             cmd('splitHunk', (e) => this.splitHunk(e)),
+            cmd('pickHunk', (e) => this.pickHunk(e)),
+            cmd('nextSplitGroup', (e) => this.nextSplitGroup(e)),
+            cmd('completeSplit', (e) => this.completeSplit(e)),
             cmd('openFile', () => this.openFile()),
             cmd('help', () => this.help()),
             cmd('gotoPreviousHunk', () => this.gotoPreviousHunk()),
             cmd('gotoNextHunk', () => this.gotoNextHunk()),
         );
-        subscriptions.push(this);
+        subscriptions.push(
+            this,
+            window.onDidChangeActiveTextEditor((editor) => {
+                const editing = !!editor &&
+                    this.editedHunks.has(editor.document);
+                commands.executeCommand(
+                    'setContext', 'sdiff.editingHunk', editing);
+            }),
+            workspace.onDidCloseTextDocument(
+                (doc) => this.editedHunks.delete(doc)),
+            this.removedWordsDecoration,
+            this.addedWordsDecoration,
+            window.onDidChangeVisibleTextEditors(
+                (editors) => editors.forEach(e => this.highlightWords(e))),
+            workspace.onDidChangeTextDocument((ev) => {
+                window.visibleTextEditors.filter(
+                    e => e.document === ev.document).forEach(
+                    e => this.highlightWords(e));
+            }),
+        );
+        window.visibleTextEditors.forEach(e => this.highlightWords(e));
     }
 
     dispose() {
         DiffMode.instance = null;
     }
 
+    /**
+     * Highlight the changed words of removed lines followed by added lines
+     * in the hunks of a diff editor.
+     */
+    private highlightWords(editor: vscode.TextEditor) {
+        const doc = editor.document;
+        if (doc.uri.scheme !== 'stgit-diff')
+            return;
+        const removed: vscode.Range[] = [];
+        const added: vscode.Range[] = [];
+        const text = (line: number) => doc.lineAt(line).text;
+        for (let line = 0; line < doc.lineCount; line++) {
+            const hunk = text(line).startsWith("@@") ?
+                Hunk.fromLine(doc, line) : null;
+            if (!hunk)
+                continue;
+            const end = hunk.line + hunk.numHunkLines;
+            for (let i = hunk.line + 1; i < end;) {
+                const minus: number[] = [];
+                const plus: number[] = [];
+                for (; i < end && '-\\'.includes(text(i)[0]); i++) {
+                    if (text(i)[0] === '-')
+                        minus.push(i);
+                }
+                for (; i < end && '+\\'.includes(text(i)[0]); i++) {
+                    if (text(i)[0] === '+')
+                        plus.push(i);
+                }
+                if (!minus.length && !plus.length)
+                    i++;
+                const pairs = Math.min(minus.length, plus.length);
+                for (let k = 0; k < pairs; k++) {
+                    const [from, to] = [minus[k], plus[k]];
+                    const ranges = wordDiff(
+                        text(from).slice(1), text(to).slice(1));
+                    if (!ranges)
+                        continue;
+                    for (const r of ranges[0])
+                        removed.push(new vscode.Range(
+                            from, r.start + 1, from, r.end + 1));
+                    for (const r of ranges[1])
+                        added.push(new vscode.Range(
+                            to, r.start + 1, to, r.end + 1));
+                }
+            }
+            line = end - 1;
+        }
+        editor.setDecorations(this.removedWordsDecoration, removed);
+        editor.setDecorations(this.addedWordsDecoration, added);
+    }
+
     private gotoHunk(lineIncrement: number) {
         const editor = window.activeTextEditor;
         if (!editor)
@@ -255,13 +630,44 @@ class DiffMode {
             editor.selection = new vscode.Selection(hunk.line, 0, hunk.line, 0);
     }
 
-    private async doApplyHunk(opts: { reverse: boolean }) {
+    // First and last line of the selection
+    private selectedLines(editor: vscode.TextEditor): [number, number] {
+        const sel = editor.selection;
+        const end = (sel.end.line > sel.start.line && sel.end.character === 0)
+            ? sel.end.line - 1 : sel.end.line;
+        return [sel.start.line, end];
+    }
+
+    /**
+     * Texts for applying the hunk, or the selected lines of the hunk.
+     * The selection is reported if it does not contain any changes.
+     */
+    private hunkTexts(
+        hunk: Hunk, opts: { reverse: boolean, lines: boolean }
+    ): [HunkText, HunkText] | null {
+        const editor = window.activeTextEditor;
+        if (!opts.lines || !editor) {
+            return opts.reverse ?
+                [hunk.toText, hunk.fromText] : [hunk.fromText, hunk.toText];
+        }
+        const [start, end] = this.selectedLines(editor);
+        const texts = hunk.selectionTexts(
+            editor.document, start, end, opts.reverse);
+        if (!texts)
+            info("No changed lines selected");
+        return texts;
+    }
+
+    private async doApplyHunk(opts: { reverse: boolean, lines: boolean }) {
         const hunk = this.hunk;
         if (!hunk)
             return;
-        this.selectHunk(hunk);
-        const [fromText, toText] = opts.reverse ?
-            [hunk.toText, hunk.fromText] : [hunk.fromText, hunk.toText];
+        const texts = this.hunkTexts(hunk, opts);
+        if (!texts)
+            return;
+        const [fromText, toText] = texts;
+        if (!opts.lines)
+            this.selectHunk(hunk);
         const doc = await this.getSourceDoc(hunk);
         if (!doc) {
             info("Failed to find file to patch");
@@ -275,7 +681,8 @@ class DiffMode {
                 info("Failed to find text to patch");
             return;
         }
-        this.gotoNextHunk();
+        if (!opts.lines)
+            this.gotoNextHunk();
         const docEditor = await window.showTextDocument(doc, {
             viewColumn: vscode.ViewColumn.Beside,
             preserveFocus: true,
@@ -292,19 +699,59 @@ class DiffMode {
     }
 
     applyHunk() {
-        this.doApplyHunk({ reverse: false });
+        this.doApplyHunk({ reverse: false, lines: false });
     }
 
     revertHunk() {
-        this.doApplyHunk({ reverse: true });
+        this.doApplyHunk({ reverse: true, lines: false });
     }
 
-    private async stageOrUnstageHunk(opts: { stage: boolean }) {
+    revertLines() {
+        this.doApplyHunk({ reverse: true, lines: true });
+    }
+
+    private async stageOrUnstageHunk(opts: { stage: boolean, lines: boolean }) {
+        const editor = window.activeTextEditor;
+        if (editor && this.patchSha(editor)) {
+            // Unstaging from a committed patch moves the changes to the
+            // work tree
+            if (opts.stage)
+                info("Changes of committed patches can only be unstaged");
+            else
+                this.moveHunk(editor, { lines: opts.lines, toPatch: false });
+            return;
+        }
         const hunk = this.hunk;
         const header = this.getHeader(hunk);
         if (!hunk || !header)
             return;
-        const path = header.toPath;
+        const texts = this.hunkTexts(
+            hunk, { reverse: !opts.stage, lines: opts.lines });
+        if (!texts)
+            return;
+        const index = await this.readIndex(header.toPath);
+        if (!index)
+            return;
+        const lines = index.lines;
+
+        const [fromText, toText] = texts;
+        if (!opts.lines)
+            this.selectHunk(hunk);
+        if (!fromText.replaceInText(lines, toText)) {
+            if (toText.findInText(lines) != -1)
+                info("Patch already staged!");
+            else
+                info("Failed to find text to patch");
+            return;
+        }
+        await this.writeIndex(header.toPath, lines, index.usesCRLF);
+        if (!opts.lines)
+            this.gotoNextHunk();
+    }
+
+    private async readIndex(
+        path: string
+    ): Promise<{ lines: string[], usesCRLF: boolean } | null> {
         const indexResult = await runCommand(
             'git', ['show', `:${path}`], { trim: false });
         if (indexResult.ecode) {
@@ -312,48 +759,107 @@ class DiffMode {
                 info(`'${path}' is unmerged`);
             else
                 info(`'${path}' is not under version control`);
-            return;
+            return null;
         }
         const index = indexResult.stdout;
-        const usesCRLF = index.includes('\r\n');
-        const lines = index.replace(/\r\n/g, '\n').split('\n');
+        return {
+            lines: index.replace(/\r\n/g, '\n').split('\n'),
+            usesCRLF: index.includes('\r\n'),
+        };
+    }
 
-        const [fromText, toText] = opts.stage ?
-            [hunk.fromText, hunk.toText] : [hunk.toText, hunk.fromText];
-        this.selectHunk(hunk);
-        const matchLine = fromText.findInText(lines);
-        if (matchLine < 0) {
-            if (toText.findInText(lines) != -1)
-                info("Patch already staged!");
-            else
-                info("Failed to find text to patch");
-            return;
-        }
-        lines.splice(matchLine, fromText.text.length, ...toText.text);
-        if (fromText.missingNewline && !toText.missingNewline)
-            lines.push("");
-        else if (toText.missingNewline && !fromText.missingNewline)
-            lines.pop();
+    private async writeIndex(path: string, lines: string[], usesCRLF: boolean) {
         const newContents = lines.join(usesCRLF ? '\r\n' : '\n');
-        await updateIndex(header.toPath, { data: newContents });
+        await updateIndex(path, { data: newContents });
         reloadIndexAndWorkTree();
-        this.gotoNextHunk();
+    }
+
+    async editHunk(editor: vscode.TextEditor) {
+        const hunk = this.hunk;
+        const header = this.getHeader(hunk);
+        if (!hunk || !header)
+            return;
+        const lines: string[] = [];
+        for (let i = hunk.line; i < hunk.line + hunk.numHunkLines; i++)
+            lines.push(editor.document.lineAt(i).text);
+        const doc = await workspace.openTextDocument({
+            language: 'diff',
+            content: lines.join('\n') + '\n',
+        });
+        this.editedHunks.set(doc, { path: header.toPath, line: hunk.line });
+        await window.showTextDocument(doc, {
+            viewColumn: vscode.ViewColumn.Beside,
+            preview: false,
+        });
+        showStatusMessage("Edit the hunk and stage it with C-c C-c");
+    }
+
+    async completeHunkEdit(editor: vscode.TextEditor) {
+        const edited = this.editedHunks.get(editor.document);
+        if (!edited)
+            return;
+        const reportError = (msg: string) => {
+            info(msg);
+            const line = parseInt(msg.match(/^Line ([0-9]+)/)?.[1] ?? "0");
+            if (line > 0)
+                editor.selection = new vscode.Selection(
+                    line - 1, 0, line - 1, 0);
+        };
+        const hunk = parseEditedHunk(editor.document.getText());
+        if (typeof hunk === 'string') {
+            reportError(hunk);
+            return;
+        }
+        const index = await this.readIndex(edited.path);
+        if (!index)
+            return;
+        if (!hunk.fromText.replaceInText(index.lines, hunk.toText)) {
+            reportError(this.describeMismatch(editor.document, index.lines,
+                hunk.fromText.srcLine));
+            return;
+        }
+        await this.writeIndex(edited.path, index.lines, index.usesCRLF);
+        this.editedHunks.delete(editor.document);
+        await commands.executeCommand(
+            'workbench.action.revertAndCloseActiveEditor');
+    }
+
+    private describeMismatch(
+        doc: vscode.TextDocument, index: string[], srcLine: number
+    ): string {
+        let indexLine = srcLine;
+        for (let i = 1; i < doc.lineCount; i++) {
+            const s = doc.lineAt(i).text || ' ';
+            if (s[0] !== ' ' && s[0] !== '-')
+                continue;
+            if (index[indexLine] !== s.slice(1))
+                return `Line ${i + 1}: does not match the index`;
+            indexLine++;
+        }
+        return "The hunk context does not match the index";
     }
 
     stageHunk() {
-        this.stageOrUnstageHunk({ stage: true });
+        this.stageOrUnstageHunk({ stage: true, lines: false });
     }
 
     unstageHunk() {
-        this.stageOrUnstageHunk({ stage: false });
+        this.stageOrUnstageHunk({ stage: false, lines: false });
+    }
+
+    stageLines() {
+        this.stageOrUnstageHunk({ stage: true, lines: true });
+    }
+
+    unstageLines() {
+        this.stageOrUnstageHunk({ stage: false, lines: true });
     }
 
     async splitHunk(editor: vscode.TextEditor) {
-        const SPLITS = /,splits=([0-9;]*)/;
-        const uri = editor.document.uri;
-        const frag = uri.fragment;
+        const frag = editor.document.uri.fragment;
         const spec = frag.match(SPLITS)?.[1] ?? "";
         const oldSplits = spec ? spec.split(";").map(x => parseInt(x)) : [];
+        const oldPicks = parsePicks(frag);
 
         const curLine = editor.selection.start.line;
         const line = editor.selection.start.line;
@@ -369,21 +875,200 @@ class DiffMode {
             return;
 
         let splits: number[];
+        const picks = new Map<number, number>();
         if (oldSplits.includes(line)) {
-            splits = oldSplits.filter(x => x !== line);
+            splits = oldSplits.filter(x => x !== line).map(
+                s => s > line ? s - 1 : s);
+            for (const [l, group] of oldPicks) {
+                if (l !== line)
+                    picks.set(l > line ? l - 1 : l, group);
+            }
         } else {
             splits = [...oldSplits.map(s => s > line ? s + 1 : s), line];
             splits.sort((a, b) => a - b);
+            for (const [l, group] of oldPicks)
+                picks.set(l > line ? l + 1 : l, group);
         }
         const splitsFrag = `,splits=${splits.join(";")}`;
-        const newFrag = frag.replace(SPLITS, "") + splitsFrag;
-        const newUri = uri.with({ fragment: newFrag });
+        const newFrag = withPicks(frag, picks).replace(SPLITS, "") + splitsFrag;
+        this.showWithFragment(editor, newFrag, curLine);
+    }
+
+    private showWithFragment(
+        editor: vscode.TextEditor, fragment: string, line: number
+    ) {
+        const newUri = editor.document.uri.with({ fragment });
         refreshDiff(newUri);
         openAndShowDiffDocument(newUri, {
-            selection: new vscode.Selection(curLine, 0, curLine, 0),
+            selection: new vscode.Selection(line, 0, line, 0),
         });
     }
 
+    /**
+     * Add the hunk at point to the patch currently being assembled in a
+     * split buffer, or remove it if it already belongs to that patch.
+     */
+    pickHunk(editor: vscode.TextEditor) {
+        const frag = editor.document.uri.fragment;
+        if (!SPLITPATCH.test(frag)) {
+            info("Hunks can only be picked when splitting a patch");
+            return;
+        }
+        const line = editor.selection.start.line;
+        const hunk = this.findHunk(editor.document, line);
+        if (!hunk)
+            return;
+        const group = parseInt(frag.match(GROUP)?.[1] ?? "1");
+        const picks = parsePicks(frag);
+        if (picks.get(hunk.line) === group)
+            picks.delete(hunk.line);
+        else
+            picks.set(hunk.line, group);
+        const next = hunk.line + hunk.numHunkLines;
+        const nextLine = next < editor.document.lineCount ? next : line;
+        this.showWithFragment(editor, withPicks(frag, picks), nextLine);
+    }
+
+    /**
+     * Start picking hunks for the next patch in a split buffer.
+     */
+    nextSplitGroup(editor: vscode.TextEditor) {
+        const frag = editor.document.uri.fragment;
+        if (!SPLITPATCH.test(frag))
+            return;
+        const group = parseInt(frag.match(GROUP)?.[1] ?? "1");
+        if (![...parsePicks(frag).values()].includes(group)) {
+            info(`No hunks picked for patch ${group}`);
+            return;
+        }
+        const newFrag = frag.replace(GROUP, "") + `,group=${group + 1}`;
+        this.showWithFragment(editor, newFrag, editor.selection.start.line);
+        showStatusMessage(`Picking hunks for patch ${group + 1}`);
+    }
+
+    /**
+     * Split the patch shown in a split buffer. Each group of picked hunks
+     * becomes a new patch below the original patch, which keeps the
+     * hunks that were not picked.
+     */
+    async completeSplit(editor: vscode.TextEditor) {
+        const doc = editor.document;
+        const frag = doc.uri.fragment;
+        const label = frag.match(SPLITPATCH)?.[1];
+        const sha = frag.match(/sha=([0-9a-f]*)/)?.[1];
+        if (!label || !sha)
+            return;
+        const picks = [...parsePicks(frag)].sort((a, b) => a[0] - b[0]);
+        if (!picks.length) {
+            info("No hunks picked");
+            return;
+        }
+        const groups = [...new Set(picks.map(([, g]) => g))];
+        groups.sort((a, b) => a - b);
+
+        const files = new Map<string, SplitFile>();
+        const getFile = async (path: string, base: string) => {
+            const file = files.get(path);
+            if (file)
+                return file;
+            const result = await runCommand(
+                'git', ['show', `${sha}^:${base}`],
+                { trim: false, inhibitLogging: true });
+            const text = result.ecode ? "" : result.stdout;
+            return {
+                lines: text.replace(/\r\n/g, '\n').split('\n'),
+                usesCRLF: text.includes('\r\n'),
+            };
+        };
+        const result: Map<string, string | null>[] = [];
+        for (const group of groups) {
+            const changes = new Map<string, string | null>();
+            for (const [line, g] of picks) {
+                if (g !== group)
+                    continue;
+                const hunk = Hunk.fromLine(doc, line);
+                const header = DiffHeader.fromLine(doc, line);
+                if (!hunk || !header) {
+                    info(`Invalid hunk at line ${line + 1}`);
+                    return;
+                }
+                const { fromPath, toPath } = header;
+                if (toPath === '/dev/null') {
+                    changes.set(fromPath, null);
+                    continue;
+                }
+                const base = fromPath === '/dev/null' ? toPath : fromPath;
+                const file = await getFile(toPath, base);
+                if (!hunk.fromText.replaceInText(file.lines, hunk.toText)) {
+                    info(`Failed to apply hunk at line ${line + 1}`);
+                    return;
+                }
+                if (base !== toPath)
+                    changes.set(base, null);
+                files.set(toPath, file);
+                changes.set(toPath, file.lines.join(
+                    file.usesCRLF ? '\r\n' : '\n'));
+            }
+            result.push(changes);
+        }
+        // The buffer is kept, with its picks, if the split is cancelled
+        if (await splitPatch(label, result)) {
+            await window.showTextDocument(doc);
+            await commands.executeCommand(
+                'workbench.action.closeActiveEditor');
+        }
+    }
+
+    // Commit of the patch shown in a diff buffer, if any
+    private patchSha(editor: vscode.TextEditor): string | null {
+        const frag = editor.document.uri.fragment;
+        if (SPLITPATCH.test(frag))
+            return null;
+        return frag.match(/(?:^|,)sha=([0-9a-f]+)/)?.[1] ?? null;
+    }
+
+    /**
+     * Move the hunk at point, or its selected lines, from the committed
+     * patch shown in the diff buffer to another applied patch or to the
+     * work tree.
+     */
+    private moveHunk(
+        editor: vscode.TextEditor, opts: { lines: boolean, toPatch: boolean }
+    ) {
+        const sha = this.patchSha(editor);
+        if (!sha) {
+            info("Only hunks of committed patches can be moved");
+            return;
+        }
+        const hunk = this.hunk;
+        let fileHunk = hunk && FileHunk.fromLine(editor.document, hunk.line);
+        if (!hunk || !fileHunk)
+            return;
+        if (fileHunk.srcPath !== fileHunk.path ||
+            fileHunk.path === '/dev/null') {
+            info("Only hunks modifying an existing file can be moved");
+            return;
+        }
+        if (opts.lines) {
+            const [start, end] = this.selectedLines(editor);
+            const first = hunk.line + 1;
+            fileHunk = fileHunk.withSelection(
+                i => start <= first + i && first + i <= end);
+            if (!fileHunk) {
+                info("No changed lines selected");
+                return;
+            }
+        } else {
+            this.selectHunk(hunk);
+        }
+        moveHunk(sha, fileHunk, opts.toPatch);
+    }
+
+    moveHunkToPatch(editor: vscode.TextEditor) {
+        const lines = !editor.selection.isEmpty;
+        this.moveHunk(editor, { lines, toPatch: true });
+    }
+
     async openFile() {
         const hunk = this.hunk;
         const doc = await this.getSourceDoc(hunk);
@@ -1,6 +1,10 @@
 // Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
 // This code is licensed under the BSD 2-Clause license.
 
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { workspace, commands, window } from 'vscode';
 import { info } from './extension';
@@ -112,6 +116,66 @@ class DiffProvider {
         return diffLines.join('\n');
     }
 
+    private annotatePicks(diff: string, pickSpec?: string): string {
+        if (!pickSpec)
+            return diff;
+        const diffLines = diff.split('\n');
+        for (const pick of pickSpec.split(';')) {
+            const [line, group] = pick.split(':').map(x => parseInt(x));
+            if (diffLines[line]?.startsWith("@@"))
+                diffLines[line] += ` [patch ${group}]`;
+        }
+        return diffLines.join('\n');
+    }
+
+    /**
+     * Apply the changes of a commit to another tree.
+     * @returns sha of the resulting tree, or null if the commit does
+     *  not apply to the tree
+     */
+    private async applyToTree(
+        commit: string, tree: string
+    ): Promise<string | null> {
+        const id = crypto.randomBytes(8).toString('hex');
+        const indexFile = path.join(os.tmpdir(), `stgit-interdiff-${id}`);
+        const env = { GIT_INDEX_FILE: indexFile };
+        try {
+            if ((await runCommand('git', ['read-tree', tree], { env })).ecode)
+                return null;
+            const patch = await run(
+                'git', ['diff', '--binary', `${commit}^`, commit],
+                { trim: false });
+            const applied = await runCommand(
+                'git', ['apply', '--cached'], { env, stdin: patch });
+            if (applied.ecode)
+                return null;
+            return await run('git', ['write-tree'], { env });
+        } finally {
+            await fs.promises.rm(indexFile, { force: true });
+        }
+    }
+
+    private async interdiffHeader(
+        from: string, to: string, tree: string | null
+    ): Promise<string> {
+        const [subjects, stat] = await Promise.all([
+            run('git', ['show', '-s', '--format=%h %s', from, to]),
+            run('git', ['diff', '--stat', tree ?? from, to],
+                { trim: false }),
+        ]);
+        const [fromSubject, toSubject] = subjects.split("\n");
+        const lines = [
+            `Interdiff from ${fromSubject}`,
+            `            to ${toSubject}`,
+        ];
+        if (!tree) {
+            lines.push("",
+                "The first patch does not apply to the parent of the second" +
+                " patch, so all differences between the trees are shown.");
+        }
+        return [...lines, "", stat].join("\n");
+    }
+
     async provideDiff(uri: vscode.Uri): Promise<string> {
         const args = uri.fragment.split(',').map(
             s => (s + "=").split("=", 2) as [string, string]);
@@ -119,11 +183,25 @@ class DiffProvider {
         const diffArgs: string[] = [];
         const index = d.has('index');
         const sha = d.get('sha');
+        const from = d.get('from');
+        const to = d.get('to');
+        // Combined diff of a range of commits, 'first..last'
+        const range = d.get('range')?.split('..');
+        // Changes made by a commit relative to another, 'from..to'
+        const interdiff = d.get('interdiff')?.split('..');
+        // Two commit ranges compared by 'git range-diff', 'range1;range2'
+        const rangediff = d.get('rangediff');
         const file = d.get('file');
         const splits = d.get('splits');
+        const picks = d.get('picks');
         const diffmode = d.get('diffmode');
         const noTrim = { trim: false };
         let header: Promise<string> | null = null;
+        if (rangediff) {
+            const result = await runCommand(
+                'git', ['range-diff', ...rangediff.split(';')], noTrim);
+            return result.ecode ? `* ${result.stderr}` : result.stdout;
+        }
         if (file && diffmode) {
             switch (diffmode) {
             case '13':
@@ -142,20 +220,40 @@ class DiffProvider {
                 return "* bad diff mode";
             }
         } else {
-            if (index)
+            if (index) {
                 diffArgs.push('--cached');
-            else if (sha)
+            } else if (interdiff) {
+                const [a, b] = interdiff;
+                const tree = await this.applyToTree(a, `${b}^`);
+                diffArgs.push(tree ?? a, b);
+                if (!file)
+                    header = this.interdiffHeader(a, b, tree);
+            } else if (range) {
+                const [first, last] = range;
+                diffArgs.push(`${first}^`, last);
+                if (!file) {
+                    header = run('git', [
+                        'log', '--reverse', '--format=%h %s', '--stat',
+                        `${first}^..${last}`], noTrim);
+                }
+            } else if (from && to) {
+                diffArgs.push(from, to);
+            } else if (sha) {
                 diffArgs.push(`${sha}^`, sha);
-            else
+            } else {
                 diffArgs.push('-2');
+            }
             if (sha && !file)
                 header = run('git', ['show', '--stat', sha], noTrim);
+            else if (from && to && !file)
+                header = run('git', ['diff', '--stat', from, to], noTrim);
             if (file)
                 diffArgs.push('--', file);
         }
         const diff = await run('git', ['diff', ...diffArgs], noTrim);
         const contents = header ? [await header, diff].join("\n") : diff;
-        return this.applyHunkSplitting(contents, splits);
+        return this.annotatePicks(
+            this.applyHunkSplitting(contents, splits), picks);
     }
 }
 
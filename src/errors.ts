@@ -0,0 +1,200 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import * as vscode from 'vscode';
+import { commands, window } from 'vscode';
+import { getUserConfirmation, info, log, showLog } from './extension';
+import { RepositoryInfo } from './repo';
+import { reloadStGit } from './stgit';
+import { run, runAndReportErrors, RunOpts } from './util';
+
+export type ErrorKind =
+    'conflict' | 'dirty' | 'needsRepair' | 'patchExists' |
+    'protectedBranch' | 'nonFastForward' | 'unknownRevision';
+
+/** Failure of a git or stg command classified from its error output */
+export interface ClassifiedError {
+    kind: ErrorKind;
+    // Line of the error output describing the failure
+    message: string;
+    command: 'git' | 'stg';
+    args: string[];
+    opts?: RunOpts;
+}
+
+interface ErrorPattern {
+    kind: ErrorKind;
+    regexp: RegExp;
+    // Command and subcommands producing the error, or undefined for all
+    command?: 'git' | 'stg';
+    subcommands?: string[];
+}
+
+// Patterns matching lines of the error output of git and StGit 1 and 2
+const ERROR_PATTERNS: readonly ErrorPattern[] = [
+    {
+        kind: 'needsRepair',
+        regexp: /^(error|Error): HEAD and (stack )?top are not the same/,
+        command: 'stg',
+    }, {
+        kind: 'protectedBranch',
+        regexp: /^(error|Error): This branch is protected/,
+        command: 'stg',
+    }, {
+        kind: 'nonFastForward',
+        regexp: /^ ! \[rejected\] .*\((non-fast-forward|fetch first)\)$/,
+        command: 'git',
+        subcommands: ['push'],
+    }, {
+        kind: 'dirty',
+        regexp: new RegExp(
+            '^(error|Error): (Your local changes to the following files' +
+            ' would be overwritten|[Ll]ocal changes in the tree' +
+            '|(Worktree|Index) not clean)'),
+    }, {
+        kind: 'conflict',
+        regexp: /^CONFLICT \(|^(error|Error): .*[Mm]erge conflicts?\b/,
+        command: 'stg',
+        subcommands: [
+            'push', 'goto', 'rebase', 'pick', 'import', 'float', 'sink',
+            'squash', 'undo', 'redo', 'reset'],
+    }, {
+        kind: 'patchExists',
+        regexp: /^(error|Error): [Pp]atch [`"'][^`"']+[`"'] already exists/,
+        command: 'stg',
+    }, {
+        kind: 'unknownRevision',
+        regexp: /^fatal: (ambiguous argument .*: unknown rev|bad revision)/,
+    },
+];
+
+const SUMMARY: { [kind in ErrorKind]: string } = {
+    conflict: "Merge conflict",
+    dirty: "Uncommitted changes",
+    needsRepair: "Stack needs repair",
+    patchExists: "Patch already exists",
+    protectedBranch: "Branch is protected",
+    nonFastForward: "Push rejected",
+    unknownRevision: "Unknown revision",
+};
+
+/**
+ * Classify a failed command from its error output.
+ * @returns classified error, or null for unknown failures
+ */
+export function classifyError(
+    command: 'git' | 'stg', args: string[], stderr: string, opts?: RunOpts
+): ClassifiedError | null {
+    const lines = stderr.split("\n");
+    for (const pattern of ERROR_PATTERNS) {
+        if (pattern.command && pattern.command !== command)
+            continue;
+        if (pattern.subcommands && !pattern.subcommands.includes(args[0]))
+            continue;
+        const line = lines.find(s => pattern.regexp.test(s));
+        if (line) {
+            return {
+                kind: pattern.kind, message: line.trim(),
+                command, args, opts,
+            };
+        }
+    }
+    return null;
+}
+
+async function showConflicts() {
+    await commands.executeCommand('stgit.open');
+    const files = await run(
+        'git', ['diff', '--name-only', '--diff-filter=U']);
+    const repo = await RepositoryInfo.getSelectedRepo();
+    const file = files.split("\n").find(x => x);
+    if (repo && file) {
+        const uri = repo.getPathUri(file);
+        await window.showTextDocument(uri, {
+            viewColumn: vscode.ViewColumn.Beside,
+            preview: false,
+        });
+    }
+}
+
+async function undo() {
+    const msg = 'Perform a hard undo?' +
+        ' Files not checked in could potentially be overwritten.';
+    if (!await getUserConfirmation(msg))
+        return;
+    await runAndReportErrors('stg', ['undo', '--hard']);
+    reloadStGit();
+}
+
+async function stashAndRetry(retry: () => Promise<boolean>) {
+    const stash = await runAndReportErrors('git', ['stash', 'push']);
+    if (stash.ecode)
+        return;
+    if (await retry()) {
+        await runAndReportErrors('git', ['stash', 'pop']);
+    } else {
+        info("The retry failed. The local changes are kept in the stash" +
+            " ('git stash pop' restores them).");
+    }
+    reloadStGit();
+}
+
+async function forcePush(error: ClassifiedError) {
+    const [remote, spec] = error.args.slice(1).filter(
+        x => !x.startsWith('-'));
+    if (!remote || !spec)
+        return;
+    const forceSpec = spec.startsWith('+') ? spec : `+${spec}`;
+    if (!await getUserConfirmation(`Force-push ${forceSpec} to ${remote}?`))
+        return;
+    // The cancellation token belongs to the progress of the failed push
+    const opts = { ...error.opts, cancellation: undefined, retry: undefined };
+    await runAndReportErrors('git', ['push', remote, forceSpec], opts);
+    reloadStGit();
+}
+
+async function runAndReload(args: string[]) {
+    await runAndReportErrors('stg', args);
+    reloadStGit();
+}
+
+function errorActions(
+    error: ClassifiedError
+): [string, () => Promise<void>][] {
+    const retry = error.opts?.retry;
+    switch (error.kind) {
+    case 'conflict':
+        return [['Show Conflicts', showConflicts], ['Undo', undo]];
+    case 'dirty': {
+        const actions: [string, () => Promise<void>][] = [];
+        if (retry)
+            actions.push(['Stash and Retry', () => stashAndRetry(retry)]);
+        actions.push(['Show Changes', async () => {
+            await commands.executeCommand('stgit.open');
+        }]);
+        return actions;
+    }
+    case 'needsRepair':
+        return [['Repair', () => runAndReload(['repair'])]];
+    case 'protectedBranch':
+        return [['Unprotect', () => runAndReload(['branch', '--unprotect'])]];
+    case 'nonFastForward':
+        return [['Force Push…', () => forcePush(error)]];
+    case 'patchExists':
+    case 'unknownRevision':
+        return [];
+    }
+}
+
+/** Show a classified error together with actions for resolving it */
+export async function reportClassifiedError(error: ClassifiedError) {
+    log(`${SUMMARY[error.kind]}: ${error.message}`);
+    const actions = errorActions(error);
+    actions.push(['Show Log', async () => showLog()]);
+    const choice = await window.showWarningMessage(
+        `${SUMMARY[error.kind]}: ${error.message}`,
+        ...actions.map(([label]) => label));
+    const action = actions.find(([label]) => label === choice);
+    if (action)
+        await action[1]();
+}
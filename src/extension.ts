@@ -7,6 +7,8 @@ import { registerStGitConfig } from './config';
 import { registerDiffMode } from './diff-mode';
 import { registerDiffProvider } from './diff-provider';
 import { registerStGitMode } from './stgit';
+import { registerPatchAnnotator } from './annotate';
+import { registerAskpass } from './askpass';
 
 class StgitExtension {
     static instance: StgitExtension | null;
@@ -47,11 +49,15 @@ export async function getUserConfirmation(prompt: string) {
     return answer === 'Yes';
 }
 
+export function showLog() {
+    StgitExtension.instance?.showChannel();
+}
+
 export function info(msg: string) {
     log(msg);
     window.showInformationMessage(msg, 'Show Error').then((value) => {
         if (value) {
-            StgitExtension.instance?.showChannel();
+            showLog();
         }
     });
 }
@@ -59,9 +65,11 @@ export function info(msg: string) {
 export function activate(context: vscode.ExtensionContext) {
     StgitExtension.instance = new StgitExtension(context);
     registerStGitConfig(context);
+    registerAskpass(context);
     registerDiffProvider(context);
     registerDiffMode(context);
     registerStGitMode(context);
+    registerPatchAnnotator(context);
     log("StGit extension activated");
 }
 
@@ -12,10 +12,14 @@ export async function isUnmerged(path: string) {
     return stage && stage !== '0';
 }
 
+/**
+ * Set the contents or the mode of a file in the index.
+ * @returns true on success
+ */
 export async function updateIndex(
     path: string,
     contents: { data?: string, mode?: string }
-) {
+): Promise<boolean> {
     let mode: string | undefined;
     let sha: string | undefined;
 
@@ -33,10 +37,12 @@ export async function updateIndex(
     }
     if (!sha) {
         log("updateIndex: !sha");
-        return;
+        return false;
     }
     const cacheInfo = [mode, sha, path].join(",");
-    await run('git', ['update-index', '--cacheinfo', cacheInfo]);
+    const result = await runCommand(
+        'git', ['update-index', '--cacheinfo', cacheInfo]);
+    return result.ecode === 0;
 }
 
 export async function uncommitFiles(files?: string[]) {
@@ -70,6 +76,30 @@ export async function uncommitFiles(files?: string[]) {
     await run('git', ['read-tree', index]);
 }
 
+/**
+ * Find the commit which last modified each line of a file.
+ * @param path file to blame
+ * @param range revision range to limit the search to (e.g. "base..HEAD")
+ * @param contents file contents to blame instead of the work tree file
+ * @returns commit sha for each line of the file (zeros if uncommitted)
+ */
+export async function blameLines(
+    path: string, range: string, contents?: string
+) {
+    const contentsArgs = contents !== undefined ? ['--contents', '-'] : [];
+    const result = await run('git', [
+        'blame', '--porcelain', ...contentsArgs, range, '--', path],
+        { stdin: contents });
+    const shas: string[] = [];
+    const re = /^([0-9a-f]{40}) [0-9]+ ([0-9]+)/;
+    for (const s of result.split("\n")) {
+        const m = s.match(re);
+        if (m)
+            shas[parseInt(m[2]) - 1] = m[1];
+    }
+    return shas;
+}
+
 let stgVersionGetter: Promise<string | null> | null = null;
 
 export async function hasStGit2() {
@@ -0,0 +1,67 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import { window } from 'vscode';
+import { getStGitConfig } from './config';
+
+/**
+ * Check a commit message against the configured commit message rules.
+ * @param message commit message
+ * @param otherSubjects subjects of the other patches in the series
+ * @returns list of violations
+ */
+export function lintCommitMessage(
+    message: string, otherSubjects: string[]
+): string[] {
+    const config = getStGitConfig();
+    const violations: string[] = [];
+    const lines = message.trimEnd().split("\n");
+    const subject = lines[0] ?? "";
+
+    if (subject.length > config.subjectMaxLength) {
+        violations.push(
+            `Subject is longer than ${config.subjectMaxLength} characters`);
+    }
+    if (config.subjectPattern) {
+        try {
+            if (!new RegExp(config.subjectPattern).test(subject))
+                violations.push(
+                    `Subject does not match '${config.subjectPattern}'`);
+        } catch (e) {
+            violations.push(`Invalid subject pattern: ${e}`);
+        }
+    }
+    if (lines.length > 1 && lines[1].trim())
+        violations.push("Second line is not blank");
+    lines.forEach((s, i) => {
+        // Lines without spaces, like URLs, cannot be wrapped
+        if (i > 0 && s.length > config.bodyMaxLineLength && s.includes(' '))
+            violations.push(`Line ${i + 1} is longer than ` +
+                `${config.bodyMaxLineLength} characters`);
+    });
+    for (const key of config.requiredTrailers) {
+        const prefix = `${key.toLowerCase()}:`;
+        if (!lines.some(s => s.toLowerCase().startsWith(prefix)))
+            violations.push(`Missing '${key}' trailer`);
+    }
+    if (otherSubjects.includes(subject))
+        violations.push("Subject is used by another patch in the series");
+    return violations;
+}
+
+/**
+ * Report commit message violations to the user.
+ * @returns true if the commit should proceed
+ */
+export async function confirmCommitMessage(
+    violations: string[]
+): Promise<boolean> {
+    if (!violations.length)
+        return true;
+    const answer = await window.showWarningMessage(
+        "Commit message issues:", {
+            modal: true,
+            detail: violations.join("\n"),
+        }, "Commit Anyway");
+    return answer === "Commit Anyway";
+}
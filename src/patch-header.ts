@@ -0,0 +1,95 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import { run } from './util';
+
+const TRAILER_REGEXP = /^([A-Za-z0-9-]+): *(.*)$/;
+
+export interface PatchHeader {
+    author: string;
+    date: string;
+    trailers: string[];
+}
+
+/**
+ * Split a commit message into the message body and its trailer block.
+ * The last paragraph is considered a trailer block if every line in it
+ * is of the form 'Key: value'.
+ */
+export function splitTrailers(
+    message: string
+): { body: string, trailers: string[] } {
+    const paragraphs = message.trimEnd().split(/\n\n+/);
+    const last = paragraphs.at(-1)!.split("\n");
+    if (paragraphs.length < 2 || !last.every(s => TRAILER_REGEXP.test(s)))
+        return { body: message.trimEnd(), trailers: [] };
+    return { body: paragraphs.slice(0, -1).join("\n\n"), trailers: last };
+}
+
+export function joinTrailers(body: string, trailers: string[]): string {
+    if (!trailers.length)
+        return body.trimEnd();
+    return `${body.trimEnd()}\n\n${trailers.join("\n")}`;
+}
+
+/** Format the editable header block shown above a commit message */
+export function formatPatchHeader(header: PatchHeader): string {
+    return [
+        `Author: ${header.author}`,
+        `Date: ${header.date}`,
+        ...header.trailers,
+    ].join("\n");
+}
+
+/**
+ * Parse text produced by formatPatchHeader, optionally followed by an
+ * empty line and a commit message. The first paragraph is only taken as
+ * the header if it contains the author or the date. Trailers of the
+ * message are taken from its last paragraph, and are added to the
+ * trailers of the header.
+ */
+export function parsePatchHeader(
+    text: string
+): { header: PatchHeader, message: string } {
+    const lines = text.split("\n");
+    const header: PatchHeader = { author: '', date: '', trailers: [] };
+    const end = lines.findIndex(s => !s.trim());
+    const block = end < 0 ? lines : lines.slice(0, end);
+    const fields = block.map(s => s.match(TRAILER_REGEXP));
+    const isHeader = fields.every(m => m) && fields.some(
+        m => ['author', 'date'].includes(m![1].toLowerCase()));
+    if (isHeader) {
+        for (const m of fields) {
+            const [key, value] = [m![1], m![2].trim()];
+            if (key.toLowerCase() === 'author')
+                header.author = value;
+            else if (key.toLowerCase() === 'date')
+                header.date = value;
+            else if (value)
+                header.trailers.push(`${key}: ${value}`);
+        }
+    }
+    const message = (isHeader ? lines.slice(block.length) : lines).join("\n");
+    const { body, trailers } = splitTrailers(message.trim());
+    header.trailers.push(
+        ...trailers.filter(t => !header.trailers.includes(t)));
+    return { header, message: body };
+}
+
+/** Retrieve the header of a commit; trailers are taken from the message */
+export async function readPatchHeader(
+    sha: string
+): Promise<{ header: PatchHeader, body: string }> {
+    const s = await run(
+        'git', ['show', '-s', '--format=%an <%ae>%x00%aI', sha]);
+    const [author, date] = s.split("\0");
+    const message = await run('git', ['show', '-s', '--format=%B', sha]);
+    const { body, trailers } = splitTrailers(message);
+    return { header: { author, date, trailers }, body };
+}
+
+/** Identity of the user in the form 'Name <email>' */
+export async function userIdent(): Promise<string> {
+    const ident = await run('git', ['var', 'GIT_AUTHOR_IDENT']);
+    return ident.replace(/>.*$/, '>');
+}
@@ -0,0 +1,80 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import * as vscode from 'vscode';
+import { spawn } from 'child_process';
+import { log } from './extension';
+import {
+    killProcessTree, spawnOptionsForKill, trackRunningCommand
+} from './util';
+
+export interface TestResult {
+    passed: boolean;
+    // Combined stdout and stderr of the test command
+    output: string;
+}
+
+// Maximal amount of test output retained per patch
+const MAX_OUTPUT = 20000;
+
+/**
+ * Run a shell command, used for testing a patch, to completion.
+ * @param command shell command line
+ * @param cwd directory in which to run the command
+ * @param token cancellation token; cancelling kills the command
+ */
+export async function runTestCommand(
+    command: string, cwd: string, token: vscode.CancellationToken
+): Promise<TestResult> {
+    const proc = spawn(command, {
+        ...spawnOptionsForKill,
+        cwd: cwd,
+        shell: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    const output: string[] = [];
+    proc.stdout.on('data', (s) => output.push(s));
+    proc.stderr.on('data', (s) => output.push(s));
+    const cancellation = token.onCancellationRequested(
+        () => killProcessTree(proc));
+
+    // Files changed by the test should not make the watcher reload
+    const exited = new Promise<number>((resolve) => {
+        proc.on('close', (code) => resolve(code ?? 1));
+        proc.on('error', (err) => {
+            output.push(err.message);
+            resolve(-1);
+        });
+    });
+    const exitCode = await trackRunningCommand(exited);
+    cancellation.dispose();
+    const s = output.join('');
+    log(`[test] ${command}: exit code ${exitCode}`);
+    return {
+        passed: exitCode === 0 && !token.isCancellationRequested,
+        output: s.length > MAX_OUTPUT ? s.slice(-MAX_OUTPUT) : s,
+    };
+}
+
+/** Decoration shown next to a tested patch */
+export function testResultDecoration(
+    range: vscode.Range, result: TestResult
+): vscode.DecorationOptions {
+    const hover = new vscode.MarkdownString();
+    const tail = result.output.trimEnd().split("\n").slice(-40).join("\n");
+    hover.appendMarkdown(
+        result.passed ? "**Tests passed**" : "**Tests failed**");
+    if (tail)
+        hover.appendCodeblock(tail, 'text');
+    return {
+        range: range,
+        hoverMessage: hover,
+        renderOptions: {
+            after: {
+                contentText: result.passed ? "✔ passed" : "✘ failed",
+                color: new vscode.ThemeColor(result.passed ?
+                    'testing.iconPassed' : 'testing.iconFailed'),
+            },
+        },
+    };
+}
@@ -0,0 +1,131 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as vscode from 'vscode';
+
+interface Operation {
+    description: string;
+    cancelled: boolean;
+}
+
+export interface MutationOpts {
+    // Reads queued after the operation wait for it to complete (default)
+    blocksReads?: boolean;
+}
+
+/**
+ * Queue which serializes operations modifying the repository. A read is
+ * deferred until the modifications queued before it have completed, and
+ * a modification waits for the reads queued before it. Identical
+ * concurrent reads are coalesced into a single operation, unless a
+ * modification was queued in between.
+ */
+class OperationQueue {
+    private current: Operation | null = null;
+    private queued: Operation[] = [];
+    // Completion of the last queued modification
+    private lastMutation: Promise<void> = Promise.resolve();
+    // Completion of the last queued modification which blocks reads
+    private readBarrier: Promise<void> = Promise.resolve();
+    private activeReads = new Set<Promise<unknown>>();
+    private reads = new Map<string, Promise<unknown>>();
+    // Set within operations holding the queue
+    private readonly holder = new AsyncLocalStorage<Operation>();
+
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    get busy(): boolean {
+        return this.current !== null || this.queued.length > 0;
+    }
+
+    /** Description of the running operation, or null if idle */
+    get runningDescription(): string | null {
+        return this.current?.description ?? null;
+    }
+
+    // Check if called from within the running operation. Callbacks created
+    // by the operation which run after it has completed are queued.
+    private isHeld(): boolean {
+        const op = this.holder.getStore();
+        return op !== undefined && op === this.current;
+    }
+
+    /**
+     * Run a modifying operation once all earlier operations have finished.
+     * The queue is held until the operation completes; commands run by the
+     * operation itself bypass the queue.
+     * @returns operation result, or null if the operation was cancelled
+     */
+    async mutate<T>(
+        description: string, func: () => Promise<T>, opts?: MutationOpts
+    ): Promise<T | null> {
+        if (this.isHeld())
+            return func();
+        const op: Operation = { description, cancelled: false };
+        const previous = [this.lastMutation, ...this.activeReads];
+        let done = () => { /**/ };
+        const completion = new Promise<void>(resolve => done = resolve);
+        this.lastMutation = completion;
+        if (opts?.blocksReads ?? true)
+            this.readBarrier = completion;
+        // Later reads must not reuse output produced before this operation
+        this.reads.clear();
+        this.queued.push(op);
+        this.changeEmitter.fire();
+
+        await Promise.allSettled(previous);
+        this.queued = this.queued.filter(x => x !== op);
+        try {
+            if (op.cancelled)
+                return null;
+            this.current = op;
+            this.changeEmitter.fire();
+            return await this.holder.run(op, func);
+        } finally {
+            if (this.current === op)
+                this.current = null;
+            this.changeEmitter.fire();
+            done();
+        }
+    }
+
+    /**
+     * Run a reading operation once the modifications queued before it have
+     * finished.
+     * @param key operations with the same key are coalesced; pass null
+     *  to never coalesce the operation
+     */
+    read<T>(key: string | null, func: () => Promise<T>): Promise<T> {
+        if (this.isHeld())
+            return func();
+        const pending = key !== null ? this.reads.get(key) : undefined;
+        if (pending)
+            return pending as Promise<T>;
+        const promise = this.readBarrier.then(func);
+        this.activeReads.add(promise);
+        if (key !== null)
+            this.reads.set(key, promise);
+        const cleanup = () => {
+            this.activeReads.delete(promise);
+            if (key !== null && this.reads.get(key) === promise)
+                this.reads.delete(key);
+        };
+        promise.then(cleanup, cleanup);
+        return promise;
+    }
+
+    /**
+     * Cancel operations which have not yet started.
+     * @returns number of cancelled operations
+     */
+    cancel(): number {
+        const cancelled = this.queued.filter(op => !op.cancelled);
+        cancelled.forEach(op => op.cancelled = true);
+        this.changeEmitter.fire();
+        return cancelled.length;
+    }
+}
+
+export const operationQueue = new OperationQueue();
@@ -0,0 +1,108 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import * as vscode from 'vscode';
+import { RepositoryInfo } from './repo';
+
+export type ScmGroupId = 'index' | 'workTree' | 'applied' | 'popped';
+
+/**
+ * Resource shown in the source control view. The source object is passed
+ * back to the StGit document when an action is invoked on the resource.
+ */
+export interface ScmResource<T> extends vscode.SourceControlResourceState {
+    readonly source: T;
+    // Decoration of the file in the explorer
+    readonly fileDecoration?: vscode.FileDecoration;
+}
+
+// Groups whose files are decorated in the explorer, in increasing priority
+const DECORATED_GROUPS: readonly ScmGroupId[] = ['index', 'workTree'];
+
+/**
+ * Source control provider presenting the StGit stack in the built-in
+ * source control view. The changed files are also decorated in the
+ * explorer.
+ */
+export class StGitSourceControl<T> {
+    private readonly sourceControl: vscode.SourceControl;
+    private readonly groups: Map<ScmGroupId, vscode.SourceControlResourceGroup>;
+    private readonly resources = new Map<ScmGroupId, ScmResource<T>[]>();
+    // Serialized resources of each group, for detecting changes
+    private readonly contents = new Map<ScmGroupId, string>();
+
+    private decorations = new Map<string, vscode.FileDecoration>();
+    private readonly decorationEmitter =
+        new vscode.EventEmitter<vscode.Uri[]>();
+    private readonly decorationProvider: vscode.Disposable;
+
+    constructor(
+        readonly repo: RepositoryInfo,
+        getOriginalResource: (uri: vscode.Uri) => Promise<vscode.Uri | null>,
+    ) {
+        const rootUri = vscode.Uri.file(repo.topLevelDir);
+        this.sourceControl = vscode.scm.createSourceControl(
+            'stgit', 'StGit', rootUri);
+        this.sourceControl.quickDiffProvider = {
+            provideOriginalResource: (uri) => getOriginalResource(uri),
+        };
+        const labels: [ScmGroupId, string][] = [
+            ['index', 'Index'],
+            ['workTree', 'Work Tree'],
+            ['applied', 'Applied Patches'],
+            ['popped', 'Unapplied Patches'],
+        ];
+        this.groups = new Map(labels.map(([id, label]) => {
+            const group = this.sourceControl.createResourceGroup(id, label);
+            group.hideWhenEmpty = id !== 'workTree';
+            return [id, group];
+        }));
+        this.decorationProvider = vscode.window.registerFileDecorationProvider({
+            onDidChangeFileDecorations: this.decorationEmitter.event,
+            provideFileDecoration: (uri) =>
+                this.decorations.get(uri.toString()),
+        });
+    }
+
+    dispose() {
+        this.groups.forEach(g => g.dispose());
+        this.sourceControl.dispose();
+        this.decorationProvider.dispose();
+        this.decorationEmitter.dispose();
+    }
+
+    /**
+     * Set the resources of a group. The group is left untouched if the
+     * resources are unchanged.
+     */
+    update(group: ScmGroupId, resources: ScmResource<T>[]) {
+        const contents = JSON.stringify(resources.map(
+            r => [r.resourceUri.toString(), r.decorations, r.fileDecoration]));
+        if (this.contents.get(group) === contents)
+            return;
+        this.contents.set(group, contents);
+        this.resources.set(group, resources);
+        this.groups.get(group)!.resourceStates = resources;
+        if (DECORATED_GROUPS.includes(group))
+            this.updateDecorations();
+    }
+
+    private updateDecorations() {
+        const old = this.decorations;
+        this.decorations = new Map();
+        for (const group of DECORATED_GROUPS) {
+            for (const r of this.resources.get(group) ?? []) {
+                if (r.fileDecoration) {
+                    this.decorations.set(
+                        r.resourceUri.toString(), r.fileDecoration);
+                }
+            }
+        }
+        const changed = new Set([...old.keys(), ...this.decorations.keys()]);
+        this.decorationEmitter.fire([...changed].map(s => vscode.Uri.parse(s)));
+    }
+
+    set count(count: number) {
+        this.sourceControl.count = count;
+    }
+}
@@ -0,0 +1,382 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import * as vscode from 'vscode';
+import { window } from 'vscode';
+import { openAndShowDiffDocument } from './diff-provider';
+import { getUserConfirmation, info } from './extension';
+import { hasStGit2 } from './git';
+import { operationQueue } from './queue';
+import { reloadStGit } from './stgit';
+import { run, runAndReportErrors } from './util';
+
+// Number of stack log entries read at a time
+const PAGE_SIZE = 100;
+
+export interface StackState {
+    // Stack log commit recording this state
+    sha: string;
+    date: string;
+    command: string;
+    head: string;
+    applied: string[];
+    unapplied: string[];
+    hidden: string[];
+    // Commit of each patch in this state
+    patches: Map<string, string>;
+}
+
+/**
+ * Read the StGit stack log of a branch.
+ * @param branch branch name
+ * @param limit maximal number of entries to read
+ * @param skip number of recent entries to skip
+ * @returns stack states, most recent first
+ */
+export async function readStackLog(
+    branch: string, limit: number, skip = 0
+): Promise<StackState[]> {
+    const log = await run('git', [
+        'log', '--first-parent', `-n${limit}`, `--skip=${skip}`,
+        '--format=%H%x09%ci%x09%s', `refs/stacks/${branch}`, '--',
+    ], { inhibitLogging: true });
+    if (!log)
+        return [];
+    const states = log.split("\n").map(async (s) => {
+        const [sha, date, command] = s.split("\t");
+        const json = await run('git', ['show', `${sha}:stack.json`]);
+        try {
+            const state = JSON.parse(json);
+            const patches = Object.entries<{ oid: string }>(
+                state.patches ?? {}).map(([p, x]) => [p, x.oid] as const);
+            return {
+                sha, date, command,
+                head: state.head as string,
+                applied: state.applied as string[] ?? [],
+                unapplied: state.unapplied as string[] ?? [],
+                hidden: state.hidden as string[] ?? [],
+                patches: new Map(patches),
+            };
+        } catch (e) {
+            return null;
+        }
+    });
+    return (await Promise.all(states)).filter(
+        (x): x is StackState => x !== null);
+}
+
+// The stack log is only recorded in this format by StGit 2
+async function checkStackLog(): Promise<boolean> {
+    if (await hasStGit2())
+        return true;
+    info("The stack log requires StGit 2");
+    return false;
+}
+
+// Note about the stack log being cut off
+function cutOffNote(states: StackState[]) {
+    return states.length < PAGE_SIZE ? "" :
+        ` (last ${PAGE_SIZE} stack log entries)`;
+}
+
+interface StackLogItem extends vscode.QuickPickItem {
+    state: StackState;
+    prev: StackState | undefined;
+}
+
+function showStackDiff(item: StackLogItem, viewColumn: vscode.ViewColumn) {
+    const { state, prev } = item;
+    const s = state.sha.slice(0, 7);
+    const spec = prev ? `from=${prev.head},to=${state.head}`
+        : `sha=${state.head}`;
+    const uri = vscode.Uri.parse(`stgit-diff:///stack-log-${s}#${spec}`);
+    openAndShowDiffDocument(uri, {
+        viewColumn: viewColumn,
+        preserveFocus: true,
+    });
+}
+
+async function resetStack(sha: string, hard: boolean) {
+    if (hard) {
+        const msg = 'Perform a hard reset of the stack?' +
+            ' Files not checked in could potentially be overwritten.';
+        if (!await getUserConfirmation(msg))
+            return false;
+    }
+    const args = ['reset', ...(hard ? ['--hard'] : []), sha];
+    const result = await runAndReportErrors('stg', args);
+    return result.ecode === 0;
+}
+
+/**
+ * Run an operation consisting of several StGit commands. The operation
+ * holds the command queue, and the stack state before the operation is
+ * saved so that the whole operation can be reverted in one step: on
+ * failure, the user is offered to restore the stack, and on success to
+ * undo the operation. The stack state is only recorded by StGit 2, so
+ * with StGit 1 the operation cannot be reverted.
+ * @param branch current branch
+ * @param description operation description, e.g. "Split of 'p'"
+ * @param func operation; returns a message describing the failed step,
+ *  or null on success
+ * @returns true if the operation succeeded
+ */
+export async function runStackOperation(
+    branch: string | null,
+    description: string,
+    func: () => Promise<string | null>,
+): Promise<boolean> {
+    const outcome = await operationQueue.mutate(description, async () => {
+        const state = branch ? await run('git', [
+            'rev-parse', '-q', '--verify', `refs/stacks/${branch}`]) : "";
+        return { state, failure: await func() };
+    });
+    reloadStGit();
+    if (!outcome)
+        return false;
+    const { state, failure } = outcome;
+    const action = failure ? 'Restore Stack' : 'Undo';
+    const msg = failure ? `${failure}. ${description} was stopped.`
+        : `${description} done.`;
+    const show = failure ? window.showWarningMessage
+        : window.showInformationMessage;
+    show(msg, ...(state ? [action] : [])).then(async (choice) => {
+        if (choice && await resetStack(state, true))
+            reloadStGit();
+    });
+    return !failure;
+}
+
+/**
+ * Browse the stack log of a branch. The stack diff of an entry can be
+ * shown and the stack can be reset to the state of any entry.
+ * @param branch branch name
+ * @param viewColumn column in which to show diffs
+ * @returns true if the stack was reset
+ */
+export async function browseStackLog(
+    branch: string, viewColumn: vscode.ViewColumn
+): Promise<boolean> {
+    if (!await checkStackLog())
+        return false;
+    // One extra state is read as the predecessor of the last entry
+    const first = await readStackLog(branch, PAGE_SIZE + 1);
+    if (!first.length) {
+        info(`No stack log found for '${branch}'`);
+        return false;
+    }
+    const diffButton = {
+        iconPath: new vscode.ThemeIcon('diff'),
+        tooltip: 'Show stack diff',
+    };
+    const resetButton = {
+        iconPath: new vscode.ThemeIcon('discard'),
+        tooltip: 'Reset stack to this state',
+    };
+    const hardResetButton = {
+        iconPath: new vscode.ThemeIcon('warning'),
+        tooltip: 'Hard reset stack to this state',
+    };
+    const picker = window.createQuickPick<vscode.QuickPickItem>();
+    const moreItem: vscode.QuickPickItem = {
+        label: `$(more) Show ${PAGE_SIZE} older entries`,
+        alwaysShow: true,
+    };
+    let entries: StackLogItem[] = [];
+    const addPage = (page: StackState[]) => {
+        const items = page.slice(0, PAGE_SIZE).map((state, i) => {
+            const applied = state.applied.join(", ") || "-";
+            const unapplied = state.unapplied.join(", ") || "-";
+            return {
+                label: state.command,
+                description: state.date,
+                detail: `applied: ${applied}  unapplied: ${unapplied}`,
+                buttons: [diffButton, resetButton, hardResetButton],
+                state: state,
+                prev: page[i + 1],
+            };
+        });
+        entries = [...entries, ...items];
+        const more = page.length > PAGE_SIZE;
+        picker.items = [...entries, ...(more ? [moreItem] : [])];
+        if (items.length)
+            picker.activeItems = [items[0]];
+    };
+    addPage(first);
+    picker.placeholder = `Stack log of '${branch}'`;
+    picker.matchOnDescription = true;
+    picker.matchOnDetail = true;
+    picker.ignoreFocusOut = true;
+
+    let reset: { state: StackState, hard: boolean } | null = null;
+    return new Promise((resolve) => {
+        picker.onDidAccept(async () => {
+            const item = picker.selectedItems[0];
+            if (item === moreItem) {
+                picker.busy = true;
+                addPage(await readStackLog(
+                    branch, PAGE_SIZE + 1, entries.length));
+                picker.busy = false;
+            } else if (item) {
+                showStackDiff(item as StackLogItem, viewColumn);
+            }
+        });
+        picker.onDidTriggerItemButton((ev) => {
+            const item = ev.item as StackLogItem;
+            if (ev.button === diffButton) {
+                showStackDiff(item, viewColumn);
+            } else {
+                reset = {
+                    state: item.state,
+                    hard: ev.button === hardResetButton,
+                };
+                picker.hide();
+            }
+        });
+        picker.onDidHide(async () => {
+            picker.dispose();
+            resolve(reset ? await resetStack(reset.state.sha, reset.hard)
+                : false);
+        });
+        picker.show();
+    });
+}
+
+interface PatchVersion {
+    // Commit of the patch
+    sha: string;
+    date: string;
+    // Command which produced this version
+    command: string;
+}
+
+/**
+ * Versions of a patch recorded in the stack log.
+ * @returns versions, most recent first
+ */
+function patchVersions(states: StackState[], label: string): PatchVersion[] {
+    const versions: PatchVersion[] = [];
+    for (const state of [...states].reverse()) {
+        const sha = state.patches.get(label);
+        if (sha && sha !== versions[0]?.sha)
+            versions.unshift({ sha, date: state.date, command: state.command });
+    }
+    return versions;
+}
+
+function openDiff(spec: string, viewColumn: vscode.ViewColumn) {
+    const uri = vscode.Uri.parse(`stgit-diff:///${spec}`);
+    openAndShowDiffDocument(uri, {
+        viewColumn: viewColumn,
+        preview: false,
+    });
+}
+
+/**
+ * List the recorded versions of a patch. Picking one version shows its
+ * changes relative to the current version, and picking two versions shows
+ * the changes between them.
+ * @param branch branch name
+ * @param label patch name
+ * @param viewColumn column in which to show diffs
+ */
+export async function showPatchHistory(
+    branch: string, label: string, viewColumn: vscode.ViewColumn
+) {
+    if (!await checkStackLog())
+        return;
+    const states = await readStackLog(branch, PAGE_SIZE);
+    const versions = patchVersions(states, label);
+    if (versions.length < 2) {
+        info(`No earlier versions of '${label}' recorded`);
+        return;
+    }
+    const items = versions.map((v, i) => ({
+        label: `v${versions.length - i}: ${v.command}`,
+        description: v.date,
+        detail: v.sha.slice(0, 12) + (i === 0 ? " (current)" : ""),
+        version: v,
+        index: i,
+    }));
+    const selected = await window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: `Versions of '${label}'${cutOffNote(states)};` +
+            " pick one to compare with the current version, or two",
+    });
+    if (!selected?.length)
+        return;
+    if (selected.length > 2) {
+        info("Pick at most two versions");
+        return;
+    }
+    const [newer, older] = selected.length === 1 ?
+        [items[0], selected[0]] : [selected[0], selected[1]];
+    if (newer === older) {
+        info("Pick an earlier version to compare with");
+        return;
+    }
+    const [from, to] = [older.version.sha, newer.version.sha];
+    const s = `${label}-v${versions.length - older.index}` +
+        `-v${versions.length - newer.index}`;
+    openDiff(`interdiff-${s}#interdiff=${from}..${to}`, viewColumn);
+}
+
+/** Commit range of the applied patches of a stack state */
+function appliedRange(state: StackState): string | null {
+    const first = state.patches.get(state.applied[0]);
+    const last = state.patches.get(state.applied[state.applied.length - 1]);
+    return first && last ? `${first}^..${last}` : null;
+}
+
+/**
+ * Compare the applied patches before and after the last rebase, or of two
+ * stack log entries, in 'git range-diff' format.
+ * @param branch branch name
+ * @param viewColumn column in which to show the range diff
+ */
+export async function showRangeDiff(
+    branch: string, viewColumn: vscode.ViewColumn
+) {
+    if (!await checkStackLog())
+        return;
+    const states = await readStackLog(branch, PAGE_SIZE);
+    const rebase = states.findIndex(
+        (s, i) => /^rebase\b/.test(s.command) && states[i + 1]);
+    const lastRebase = '$(git-compare) Before and after the last rebase';
+    const choice = await window.showQuickPick([
+        ...(rebase >= 0 ? [lastRebase] : []),
+        '$(history) Select two stack log entries',
+    ], { placeHolder: 'Series to compare' });
+    if (!choice)
+        return;
+    let before: StackState;
+    let after: StackState;
+    if (choice === lastRebase) {
+        [before, after] = [states[rebase + 1], states[rebase]];
+    } else {
+        const items = states.map(state => ({
+            label: state.command,
+            description: state.date,
+            detail: `applied: ${state.applied.join(", ") || "-"}`,
+            state: state,
+        }));
+        const selected = await window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: `Pick two stack log entries${cutOffNote(states)}`,
+        });
+        if (!selected)
+            return;
+        if (selected.length !== 2) {
+            info("Pick exactly two stack log entries");
+            return;
+        }
+        [after, before] = selected.map(x => x.state);
+    }
+    const [from, to] = [appliedRange(before), appliedRange(after)];
+    if (!from || !to) {
+        info("No patches applied in one of the stack log entries");
+        return;
+    }
+    const s = `${before.sha.slice(0, 7)}-${after.sha.slice(0, 7)}`;
+    openDiff(`range-diff-${s}#rangediff=${from};${to}`, viewColumn);
+}
@@ -4,11 +4,29 @@
 import * as vscode from 'vscode';
 import { workspace, window, commands } from 'vscode';
 import { openAndShowDiffDocument, refreshDiff } from './diff-provider';
-import { run, runAndReportErrors, runCommand, sleep } from './util';
+import { FileHunk, HunkApplyMode } from './diff-mode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+    run, runAndReportErrors, runCommand, runWithProgress, sleep, withTempDir
+} from './util';
 import { log, info, showStatusMessage, getUserConfirmation } from './extension';
-import { uncommitFiles } from './git';
+import { blameLines, hasStGit2, uncommitFiles, updateIndex } from './git';
 import { RepositoryInfo } from './repo';
+import {
+    browseStackLog, runStackOperation, showPatchHistory, showRangeDiff
+} from './stack-log';
+import { ScmResource, StGitSourceControl } from './scm';
 import { getStGitConfig } from './config';
+import { confirmCommitMessage, lintCommitMessage } from './lint';
+import { RepositoryChange, RepositoryWatcher } from './watcher';
+import { operationQueue } from './queue';
+import { runTestCommand, testResultDecoration, TestResult } from './patch-test';
+import { authenticationErrorMessage, getAskpassEnv } from './askpass';
+import {
+    formatPatchHeader, joinTrailers, parsePatchHeader, readPatchHeader,
+    userIdent
+} from './patch-header';
 
 const RENAMEOPTS: readonly string[] = ['--no-renames'];
 
@@ -34,6 +52,14 @@ class Delta {
         X: "X-Unknown",
     };
 
+    // Explorer badges and the git decoration colors used for them
+    private static readonly DECORATION_COLOR: Record<string, string> = {
+        '!': 'conflicting',
+        U: 'untracked',
+        D: 'deleted',
+        A: 'added',
+    };
+
     constructor(
         private readonly srcMode: string,
         private readonly destMode: string,
@@ -52,9 +78,27 @@ class Delta {
     get deleted() {
         return this.status.startsWith('D');
     }
+    get unknown() {
+        return this.status === 'O';
+    }
+    get statusMessage() {
+        return Delta.STATUS_MESSAGE[this.status];
+    }
     get conflict() {
         return this.status.startsWith('U');
     }
+    /** Decoration of the file in the explorer */
+    get fileDecoration(): vscode.FileDecoration {
+        const badge = this.conflict ? '!' : this.unknown ? 'U'
+            : this.status[0];
+        const color = Delta.DECORATION_COLOR[badge] ?? 'modified';
+        return new vscode.FileDecoration(badge, this.statusMessage,
+            new vscode.ThemeColor(`gitDecoration.${color}ResourceForeground`));
+    }
+    /** Blob of an index stage (1: base, 2: ours, 3: theirs) */
+    stageSha(stage: number): string | null {
+        return this.indexStageInfo.find(e => e.stage === stage)?.sha ?? null;
+    }
     private get stageInfoString() {
         if (!this.indexStageInfo.length)
             return "";
@@ -78,6 +122,23 @@ class Delta {
             return " -x";
         return "";
     }
+    get hoverText(): string {
+        const lines = [`${this.statusMessage}: ${this.path}`];
+        if (this.destPath)
+            lines.push(`Destination: ${this.destPath}`);
+        if (this.score)
+            lines.push(`Similarity score: ${parseInt(this.score)}%`);
+        if (this.srcMode !== this.destMode)
+            lines.push(`Mode: ${this.srcMode} -> ${this.destMode}`);
+        else if (this.destMode !== '000000')
+            lines.push(`Mode: ${this.destMode}`);
+        for (const e of this.indexStageInfo)
+            lines.push(`Stage ${e.stage}: ${e.perm} ${e.sha}`);
+        const sinfo = this.stageInfoString;
+        if (sinfo)
+            lines.push(`Conflict: ${sinfo.slice(1, -1)}`);
+        return lines.join("\n");
+    }
     get docLine() {
         const what = Delta.STATUS_MESSAGE[this.status];
         const s = `${what}${this.permissionDelta}`;
@@ -134,9 +195,9 @@ abstract class Patch {
     constructor(
         public readonly description: string,
         public readonly label: string,
-        public readonly kind: '+' | '-' | 'H' | 'I' | 'W',
+        public readonly kind: '+' | '-' | '!' | 'H' | 'I' | 'W',
         public readonly empty: boolean,
-        private readonly symbol: "+" | "-" | ">" | " " = " ",
+        private readonly symbol: "+" | "-" | ">" | "~" | " " = " ",
     ) { }
 
     async updateFromOld(old: Patch) {
@@ -165,7 +226,7 @@ abstract class Patch {
     protected abstract doFetchDetails(): Promise<void>;
 
     setMarked(marked: boolean): boolean {
-        if (this.kind !== '+' && this.kind !== '-')
+        if (this.kind !== '+' && this.kind !== '-' && this.kind !== '!')
             return false;
         const changed = this.marked !== marked;
         this.marked = marked;
@@ -194,6 +255,33 @@ abstract class Patch {
         return this.commitMessage;
     }
 
+    async getHoverMarkdown(): Promise<vscode.MarkdownString | null> {
+        const sha = await this.getSha();
+        if (!sha)
+            return null;
+        const [message, meta, stat] = await Promise.all([
+            this.getCommitMessage(),
+            run('git', ['show', '-s',
+                '--format=%an <%ae>%x00%ad%x00%cn <%ce>%x00%cd', sha]),
+            run('git', ['show', '--stat', '--format=', sha]),
+        ]);
+        const [author, authorDate, committer, commitDate] = meta.split("\0");
+        const md = new vscode.MarkdownString();
+        if (this.label)
+            md.appendMarkdown(`**${this.label}**\n\n`);
+        md.appendCodeblock(message ?? this.description, 'text');
+        md.appendCodeblock([
+            `Author:     ${author}`,
+            `AuthorDate: ${authorDate}`,
+            `Commit:     ${committer}`,
+            `CommitDate: ${commitDate}`,
+            `SHA:        ${sha}`,
+        ].join("\n"), 'text');
+        if (stat)
+            md.appendCodeblock(stat, 'text');
+        return md;
+    }
+
     async toggleExpanded() {
         await this.fetchDetails();
         this.expanded = !this.expanded;
@@ -203,8 +291,9 @@ abstract class Patch {
 class StGitPatch extends Patch {
     static fromSeries(line: string): Patch {
         const empty = line[0] === '0';
-        const kind = line[1] === '-' ? '-' : '+';
-        const symbol = line[1] as '+' | '-' | '>';
+        const kind = line[1] === '-' || line[1] === '!' ? line[1] : '+';
+        // Lines starting with '!' are reserved for errors
+        const symbol = line[1] === '!' ? '~' : line[1] as '+' | '-' | '>';
         const label = line.slice(2).split("#")[0].trim();
         const desc = (line.split("#")[1] ?? "").trim();
         return new this(desc, label, kind, empty, symbol);
@@ -306,15 +395,24 @@ class History extends Patch {
     }
 }
 
+interface Target {
+    patch: Patch | null;
+    delta: Delta | null;
+}
+
 class StGitDoc {
     private unknownFilesVisible = false;
 
     private history: Patch[] = [];
     private applied: Patch[] = [];
     private popped: Patch[] = [];
+    private hidden: Patch[] = [];
+    private hiddenExpanded = false;
+    private hiddenLineNum = -1;
     private index: Patch = new Index();
     private workTree: Patch = new WorkTree(this.unknownFilesVisible);
     private needRepair = false;
+
     private stgMissing = false;
     private branchInitialized = true;
     private warnedAboutMissingStgBinary = false;
@@ -329,21 +427,40 @@ class StGitDoc {
 
     private commentThread: vscode.CommentThread | null = null;
 
-    // Patch being edited in editor
-    private editPatch: Patch | null = null;
+    // Patches being edited in editor
+    private editPatches: Patch[] = [];
+
+    // Patches for which a cover letter is being edited
+    private coverLetterPatches: Patch[] = [];
 
     private mainViewColumn = window.tabGroups.all.length;
 
     private subscriptions: vscode.Disposable[] = [];
 
+    private sourceControl: StGitSourceControl<Target> | null = null;
+
+    private watcher: RepositoryWatcher | null = null;
+
+    // Fires with the document contents when they have been generated
+    private readonly renderEmitter = new vscode.EventEmitter<string>();
+
     private highlightRanges: vscode.Range[] = [];
+    private lintRanges: vscode.DecorationOptions[] = [];
+
+    // Commit message violations found by lintSeries, keyed by patch label
+    private lintViolations = new Map<string, readonly string[]>();
+
+    // Results of testSeries, keyed by patch label
+    private testResults = new Map<string, TestResult>();
+    private testRanges: vscode.DecorationOptions[] = [];
     private historyRanges: vscode.Range[] = [];
 
     constructor(
         public doc: vscode.TextDocument,
         public repo: RepositoryInfo,
-        public notifyDirty: () => void,
+        private readonly onDirty: () => void,
         private commentController: vscode.CommentController,
+        private readonly workspaceState: vscode.Memento,
     ) {
         this.subscriptions.push(
             window.onDidChangeVisibleTextEditors(editors => {
@@ -366,7 +483,8 @@ class StGitDoc {
             }),
             getStGitConfig().onDidChangeConfiguration(() => {
                 this.updateConfiguration({ reload: true });
-            })
+            }),
+            operationQueue.onDidChange(() => this.onDirty()),
         );
         this.updateConfiguration({ reload: false });
         this.reload();
@@ -374,8 +492,28 @@ class StGitDoc {
     }
     dispose() {
         this.subscriptions.forEach(s => s.dispose());
+        this.renderEmitter.dispose();
+        this.sourceControl?.dispose();
+        this.watcher?.dispose();
     }
 
+    notifyDirty() {
+        this.onDirty();
+    }
+
+    // Patches to push once a merge conflict has been resolved. They are
+    // kept in the workspace state, so that a conflict can be resolved after
+    // a restart.
+    private get resumeLabels(): string[] {
+        return this.workspaceState.get<string[]>(this.resumeKey) ?? [];
+    }
+    private set resumeLabels(labels: string[]) {
+        this.workspaceState.update(
+            this.resumeKey, labels.length ? labels : undefined);
+    }
+    private get resumeKey() {
+        return `resumeLabels:${this.repo.topLevelDir}:${this.branchName}`;
+    }
     private get patches() {
         return [
             ...this.history,
@@ -383,6 +521,7 @@ class StGitDoc {
             this.index,
             this.workTree,
             ...this.popped,
+            ...(this.hiddenExpanded ? this.hidden : []),
         ];
     }
     private updateConfiguration(opt: { reload: boolean }) {
@@ -398,6 +537,7 @@ class StGitDoc {
         await index.fetchDetails();
         this.index = index;
         this.notifyDirty();
+        this.updateSourceControl();
     }
     async reloadWorkTree() {
         const workTree = new WorkTree(this.unknownFilesVisible);
@@ -405,13 +545,18 @@ class StGitDoc {
         await workTree.fetchDetails();
         this.workTree = workTree;
         this.notifyDirty();
+        this.updateSourceControl();
     }
     async reloadPatches() {
-        const m = new Map(this.patches.map(p => [p.label, p]));
+        const m = new Map(
+            [...this.patches, ...this.hidden].map(p => [p.label, p]));
         const patches = [];
 
-        const result = await runCommand(
-            'stg', ['series', '-ae', '--description']);
+        const [result, hiddenResult] = await Promise.all([
+            runCommand('stg', ['series', '-ae', '--description']),
+            runCommand('stg', ['series', '-He', '--description'],
+                { inhibitLogging: true }),
+        ]);
 
         this.branchInitialized = result.ecode === 0;
         this.stgMissing = result.ecode < 0;
@@ -420,7 +565,11 @@ class StGitDoc {
             this.warnAboutMissingStGit();
         } else if (this.branchInitialized) {
             const work: Promise<void>[] = [];
-            for (const line of result.stdout.split("\n")) {
+            const lines = [
+                ...result.stdout.split("\n").filter(s => s[1] !== '!'),
+                ...hiddenResult.stdout.split("\n"),
+            ];
+            for (const line of lines) {
                 if (line) {
                     const p = StGitPatch.fromSeries(line);
                     const old = m.get(p.label);
@@ -434,10 +583,39 @@ class StGitDoc {
             await Promise.all(work);
         }
         this.popped = patches.filter(p => p.kind === '-');
-        this.applied = patches.filter(p => p.kind !== '-');
+        this.hidden = patches.filter(p => p.kind === '!');
+        this.applied = patches.filter(p => p.kind === '+');
         this.notifyDirty();
+        this.updateSourceControl();
+        patchesReloadEmitter.fire();
+    }
+    private updateWatcher() {
+        const enabled = getStGitConfig().autoReload;
+        if (this.watcher && (!enabled || this.watcher.repo !== this.repo)) {
+            this.watcher.dispose();
+            this.watcher = null;
+        }
+        if (enabled && !this.watcher) {
+            this.watcher = new RepositoryWatcher(
+                this.repo, changes => this.reloadChanged(changes));
+        }
+    }
+    private reloadChanged(changes: Set<RepositoryChange>) {
+        if (changes.has('head'))
+            this.fetchBranchName();
+        if (changes.has('patches'))
+            this.reloadPatches();
+        if (changes.has('history'))
+            this.fetchHistory(this.historySize);
+        if (changes.has('index'))
+            this.reloadIndex();
+        if (changes.has('workTree'))
+            this.reloadWorkTree();
+        if (changes.has('head') || changes.has('patches'))
+            this.checkForRepair();
     }
     reload() {
+        this.updateWatcher();
         this.fetchBranchName();
         this.fetchUpstreamSpec();
         this.reloadPatches();
@@ -532,6 +710,111 @@ class StGitDoc {
         }
         this.refresh(['-p', marked[0].label]);
     }
+    async absorb() {
+        if (!this.baseSha)
+            return;
+        // Hunks of both the index and the work tree, relative to HEAD
+        const diff = await run('git', ['diff', 'HEAD', ...RENAMEOPTS, '-U1'],
+            { trim: false });
+        const shas = await Promise.all(this.applied.map(p => p.getSha()));
+        const owners = new Map(shas.map((sha, i) => [sha, this.applied[i]]));
+
+        const blames = new Map<string, Promise<string[]>>();
+        const targets: { hunk: FileHunk, patch: Patch }[] = [];
+        let unowned = 0;
+        for (const hunk of FileHunk.fromDiff(diff)) {
+            if (hunk.srcPath !== hunk.path) {
+                unowned++;
+                continue;
+            }
+            if (!blames.has(hunk.path)) {
+                const range = `${this.baseSha}..HEAD`;
+                const blame = run('git', ['show', `HEAD:${hunk.path}`],
+                    { trim: false }).then(
+                    text => blameLines(hunk.path, range, text));
+                blames.set(hunk.path, blame);
+            }
+            const blame = await blames.get(hunk.path)!;
+            const patches = new Set(hunk.srcLines.map(
+                l => owners.get(blame[l])));
+            const [patch] = patches;
+            if (patches.size === 1 && patch)
+                targets.push({ hunk, patch });
+            else
+                unowned++;
+        }
+        if (!targets.length) {
+            info("No hunks can be absorbed");
+            return;
+        }
+        const items = targets.map(t => ({
+            label: `${t.hunk.path}:${t.hunk.srcLine + 1}`,
+            description: `-> ${t.patch.label}`,
+            detail: t.hunk.lines.find(s => '+-'.includes(s[0])),
+            picked: true,
+            target: t,
+        }));
+        const kept = unowned ?
+            ` (${unowned} hunks without a unique owner are kept)` : '';
+        const selected = await window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: `Absorb hunks into patches${kept}`,
+        });
+        if (!selected?.length)
+            return;
+
+        const git = async (args: string[]) =>
+            (await runCommand('git', args)).ecode === 0;
+        await runStackOperation(this.branchName, "Absorb", async () => {
+            // The patches are refreshed from a clean work tree; the local
+            // changes are restored from the stash afterwards
+            if (!await git(['stash', 'push', '-q']))
+                return "Failed to stash local changes";
+            const failure = await this.absorbHunks(
+                selected.map(x => x.target));
+            if (!await git(['stash', 'pop', '-q', '--index']) &&
+                !await git(['stash', 'pop', '-q'])) {
+                const msg = "Failed to restore local changes, " +
+                    "they are kept in the stash";
+                return failure ? `${failure}. ${msg}` : msg;
+            }
+            return failure;
+        });
+    }
+    // Refresh patches with the hunks absorbed into them, starting from a
+    // clean work tree.
+    // Returns a message describing the failed step, or null on success.
+    private async absorbHunks(
+        targets: { hunk: FileHunk, patch: Patch }[]
+    ): Promise<string | null> {
+        const git = async (args: string[]) =>
+            (await runCommand('git', args)).ecode === 0;
+        for (const patch of this.applied) {
+            const hunks = targets.filter(
+                x => x.patch === patch).map(x => x.hunk);
+            if (!hunks.length)
+                continue;
+            if (!await git(['read-tree', 'HEAD']))
+                return "Failed to reset the index";
+            for (const hunk of hunks) {
+                const text = await run(
+                    'git', ['show', `:${hunk.path}`], { trim: false });
+                const data = hunk.applyTo(text);
+                if (data === null || !await updateIndex(hunk.path, { data }))
+                    return `Failed to absorb hunk in '${hunk.path}'`;
+            }
+            // Keep the work tree in sync with the index, so that the local
+            // changes can be restored from the stash
+            const paths = [...new Set(hunks.map(h => h.path))];
+            if (!await git(['checkout-index', '-f', '--', ...paths]))
+                return "Failed to update the work tree";
+            const result = await runAndReportErrors(
+                'stg', ['refresh', '--index', '-p', patch.label]);
+            if (result.ecode)
+                return `Failed to refresh '${patch.label}'`;
+        }
+        return null;
+    }
     async repair() {
         await run('stg', ['repair']);
         this.reload();
@@ -540,21 +823,38 @@ class StGitDoc {
         await run('stg', ['init']);
         this.reload();
     }
-    async gotoPatch() {
-        const p = this.curPatch;
-        if (p?.label)
-            await runAndReportErrors('stg', ['goto', '--', p.label]);
-        else if (p?.kind === 'H')
-            await runAndReportErrors('stg', ['pop', '-a',]);
-        else
-            return;
+    /**
+     * Push patches with 'stg goto' or 'stg push', followed by a reload.
+     * @param labels patches which are pushed
+     * @returns true on success
+     */
+    private async pushPatches(
+        args: string[], labels: string[]
+    ): Promise<boolean> {
+        this.resumeLabels = labels;
+        const retry = () => this.pushPatches(args, labels);
+        const result = await runAndReportErrors('stg', args, { retry });
+        if (!result.ecode)
+            this.resumeLabels = [];
         this.reload();
+        return !result.ecode;
+    }
+    async gotoPatch(p = this.curPatch) {
+        if (p?.label) {
+            const i = this.popped.indexOf(p);
+            const pushed = this.popped.slice(0, i + 1).map(x => x.label);
+            await this.pushPatches(['goto', '--', p.label], pushed);
+        } else if (p?.kind === 'H') {
+            await runAndReportErrors('stg', ['pop', '-a',]);
+            this.reload();
+        }
     }
-    async pushOrPopPatches() {
-        const applied = this.applied.filter(p => p.marked);
-        const popped = this.popped.filter(p => p.marked);
+    async pushOrPopPatches(patches?: Patch[]) {
+        const selected = patches ?? this.patches.filter(p => p.marked);
+        const applied = this.applied.filter(p => selected.includes(p));
+        const popped = this.popped.filter(p => selected.includes(p));
         const p = this.curPatch;
-        if (!applied.length && !popped.length && p) {
+        if (!applied.length && !popped.length && p && !patches) {
             if (this.applied.includes(p))
                 applied.push(p);
             else if (this.popped.includes(p))
@@ -568,12 +868,12 @@ class StGitDoc {
         }
         if (popped.length) {
             const patches = popped.map(p => p.label);
-            await runAndReportErrors('stg', ['push', '--', ...patches]);
-        } else if (applied.length) {
+            await this.pushPatches(['push', '--', ...patches], patches);
+        } else {
             const patches = applied.map(p => p.label);
             await runAndReportErrors('stg', ['pop', '--', ...patches]);
+            this.reload();
         }
-        this.reload();
     }
     async movePatchesTo() {
         const p = this.curPatch;
@@ -593,14 +893,15 @@ class StGitDoc {
         this.reload();
     }
     private async openCommentEditor(
-        line: number, body: string, context: string) {
+        line: number, body: string, context: string,
+        labels?: { title: string, author: string, label: string }) {
         const comment: vscode.Comment = {
             contextValue: context,
             body: body,
             mode: vscode.CommentMode.Editing,
-            label: "(use 50/72 format)",
+            label: labels?.label ?? "(use 50/72 format)",
             author: {
-                name: "Commit Message"
+                name: labels?.author ?? "Commit Message"
             }
         };
         this.commentThread?.dispose();
@@ -609,7 +910,7 @@ class StGitDoc {
         const range = new vscode.Range(pos, pos);
         const thread = this.commentController.createCommentThread(
             this.doc.uri, range, comments);
-        thread.label = 'Enter commit message:';
+        thread.label = labels?.title ?? 'Enter commit message:';
         thread.contextValue = context;
         thread.canReply = false;
         thread.collapsibleState =
@@ -630,41 +931,396 @@ class StGitDoc {
         }
     }
 
+    // True if the index and work tree have no changes, ignoring unknown
+    // files. The index and work tree are reloaded first.
+    private async isClean(): Promise<boolean> {
+        await Promise.all([this.reloadIndex(), this.reloadWorkTree()]);
+        return !this.index.deltas.length &&
+            !this.workTree.deltas.some(d => !d.unknown);
+    }
+    async splitPatch() {
+        const p = this.curPatch;
+        if (!p || p.kind !== '+') {
+            if (p?.kind === '-')
+                info("Only applied patches can be split.");
+            return;
+        }
+        if (!await this.isClean()) {
+            info("Work tree and index must be clean to split a patch");
+            return;
+        }
+        const sha = await p.getSha();
+        if (!sha)
+            return;
+        const spec = `split-${p.label}#sha=${sha},splitpatch=${p.label}`;
+        const uri = vscode.Uri.parse(`stgit-diff:///${spec}`);
+        refreshDiff(uri);
+        openAndShowDiffDocument(uri, {
+            viewColumn: this.alternateViewColumn,
+            preview: false,
+        });
+        showStatusMessage(`Picking hunks for patch 1`);
+    }
+    /**
+     * Split an applied patch. Each group of files becomes a new patch
+     * below the patch, which keeps the remaining changes.
+     * @returns false if the split was cancelled or failed
+     */
+    async applySplit(
+        label: string, groups: Map<string, string | null>[]
+    ): Promise<boolean> {
+        const patch = this.applied.find(p => p.label === label);
+        if (!patch) {
+            info(`Patch '${label}' is not applied`);
+            return false;
+        }
+        const messages: string[] = [];
+        for (let i = 0; i < groups.length; i++) {
+            const msg = await window.showInputBox({
+                prompt: `Commit message for patch ${i + 1}/${groups.length}`,
+                value: `${patch.description} (${i + 1}/${groups.length})`,
+            });
+            if (!msg)
+                return false;
+            messages.push(msg);
+        }
+        // The files of the groups are overwritten, so changes made since
+        // the split was started must not be lost
+        if (!await this.isClean()) {
+            info("Work tree and index must be clean to split a patch");
+            return false;
+        }
+        const top = this.applied.at(-1);
+        const stg = async (args: string[]) =>
+            (await runAndReportErrors('stg', args)).ecode === 0;
+        const git = async (args: string[]) =>
+            (await runCommand('git', args)).ecode === 0;
+        return runStackOperation(
+            this.branchName, `Split of '${label}'`, async () => {
+                if (top !== patch && !await stg(['goto', '--', label]))
+                    return `Failed to go to '${label}'`;
+                if (!await stg(['pop']))
+                    return `Failed to pop '${label}'`;
+                for (const [i, files] of groups.entries()) {
+                    for (const [path, data] of files) {
+                        const ok = data === null ?
+                            await git(['rm', '-q', '--', path]) :
+                            await updateIndex(path, { data }) && await git(
+                                ['checkout-index', '-f', '--', path]);
+                        if (!ok)
+                            return `Failed to update '${path}'`;
+                    }
+                    if (!await stg(['new', '-m', messages[i]]) ||
+                        !await stg(['refresh', '--index']))
+                        return `Failed to create patch ${i + 1}`;
+                }
+                if (!await stg(['push', '--', label]))
+                    return `Failed to push '${label}'`;
+                if (top && top !== patch &&
+                    !await stg(['goto', '--', top.label]))
+                    return "Failed to push the patches above the split";
+                return null;
+            });
+    }
+    /**
+     * Move a hunk of an applied patch to another applied patch, or remove
+     * it from the patch and keep the changes in the work tree. The patches
+     * in between are reapplied, and the move can be undone in one step.
+     * @param sha commit of the patch containing the hunk
+     * @param toPatch move the hunk to a patch selected by the user
+     */
+    async moveHunk(sha: string, hunk: FileHunk, toPatch: boolean) {
+        const shas = await Promise.all(this.applied.map(p => p.getSha()));
+        const source = this.applied[shas.indexOf(sha)];
+        if (!source) {
+            info("Hunks can only be moved from applied patches");
+            return;
+        }
+        if (this.index.deltas.length || this.workTree.deltas.length) {
+            info("Work tree and index must be clean to move a hunk");
+            return;
+        }
+        let target: Patch | null = null;
+        if (toPatch) {
+            const items = this.applied.filter(p => p !== source).map(p => ({
+                label: p.label,
+                description: p.description,
+                patch: p,
+            }));
+            if (!items.length) {
+                info("No other applied patch to move the hunk to");
+                return;
+            }
+            const placeHolder =
+                `Move hunk in '${hunk.path}' from '${source.label}' to patch`;
+            target = (await window.showQuickPick(
+                items, { placeHolder }))?.patch ?? null;
+            if (!target)
+                return;
+        }
+        // Above the source patch, the hunk is reapplied to text from which
+        // it has been reverted
+        const steps: [Patch, HunkApplyMode][] = [[source, 'revert']];
+        if (target) {
+            const below = this.applied.indexOf(target) <
+                this.applied.indexOf(source);
+            steps.push([target, below ? 'apply' : 'reapply']);
+        }
+        const top = this.applied.at(-1)!;
+        const stg = async (args: string[]) =>
+            (await runAndReportErrors('stg', args)).ecode === 0;
+        const git = async (args: string[]) =>
+            (await runCommand('git', args)).ecode === 0;
+        const readIndex = () =>
+            run('git', ['show', `:${hunk.path}`], { trim: false });
+        const description = target ?
+            `Move of hunk to '${target.label}'` :
+            `Removal of hunk from '${source.label}'`;
+        await runStackOperation(this.branchName, description, async () => {
+            let current = top;
+            for (const [patch, mode] of steps) {
+                if (current !== patch &&
+                    !await stg(['goto', '--', patch.label]))
+                    return `Failed to apply the patches up to '${patch.label}'`;
+                current = patch;
+                const data = hunk.applyTo(await readIndex(), mode);
+                if (data === null)
+                    return `The hunk does not apply to '${patch.label}'`;
+                if (!await updateIndex(hunk.path, { data }) || !await git(
+                    ['checkout-index', '-f', '--', hunk.path]))
+                    return `Failed to update '${hunk.path}'`;
+                if (!await stg(['refresh', '--index']))
+                    return `Failed to refresh '${patch.label}'`;
+            }
+            if (current !== top && !await stg(['goto', '--', top.label]))
+                return "Failed to reapply the patches above the target";
+            if (!target) {
+                const data = hunk.applyTo(await readIndex(), 'reapply');
+                if (data === null)
+                    return "The hunk does not apply to the work tree";
+                const file = this.repo.getPathUri(hunk.path).fsPath;
+                await fs.writeFile(file, data);
+            }
+            return null;
+        });
+    }
     async createPatch() {
         const patch = this.index.deltas.length ? this.index : this.workTree;
         const line = patch.lineNum + patch.deltas.length;
         this.openCommentEditor(line, "", "stgit");
     }
-    async editCommitMessage() {
-        const p = this.curPatch;
-        if (!p || !['+', '-'].includes(p.kind))
+    async editCommitMessage(p = this.curPatch) {
+        const kinds = ['+', '-', '!'];
+        const marked = this.patches.filter(
+            x => x.marked && kinds.includes(x.kind));
+        if (marked.length > 1 && (!p || marked.includes(p))) {
+            // Edit the headers of all marked patches at once
+            this.editPatches = marked;
+            const header = formatPatchHeader({
+                author: '', date: '',
+                trailers: [`Signed-off-by: ${await userIdent()}`],
+            });
+            this.openCommentEditor(marked[0].lineNum, header, "stgit-edit", {
+                title: `Edit headers of ${marked.length} patches:`,
+                author: "Patch Headers",
+                label: "(empty fields are kept, trailers are added)",
+            });
             return;
-        this.editPatch = p;
-        const sha = await p.getSha() ?? "error retrieving commit message>";
-        const msg = await run('git', ['show', '-s', sha, '--format=%B']);
-        this.openCommentEditor(p.lineNum, msg, "stgit-edit");
+        }
+        if (!p || !kinds.includes(p.kind))
+            return;
+        const sha = await p.getSha();
+        if (!sha)
+            return;
+        this.editPatches = [p];
+        const { header, body } = await readPatchHeader(sha);
+        const text = `${formatPatchHeader(header)}\n\n${body}`;
+        this.openCommentEditor(p.lineNum, text, "stgit-edit", {
+            title: 'Edit patch header and commit message:',
+            author: "Commit Message",
+            label: "(use 50/72 format)",
+        });
+    }
+    async editPatchMessage(label: string) {
+        if (!this.findPatch(label))
+            await this.reloadPatches();
+        // Reloaded patches get a line once the document is rendered
+        if (this.findPatch(label)?.lineNum === 0)
+            await this.nextRender();
+        const patch = this.findPatch(label);
+        if (patch)
+            this.editCommitMessage(patch);
+    }
+    // Wait until the document shows the next generated contents
+    private nextRender(): Promise<void> {
+        return new Promise(resolve => {
+            const listener = this.renderEmitter.event(contents => {
+                listener.dispose();
+                if (this.doc.getText() === contents) {
+                    resolve();
+                    return;
+                }
+                const changes = workspace.onDidChangeTextDocument(ev => {
+                    if (ev.document === this.doc) {
+                        changes.dispose();
+                        resolve();
+                    }
+                });
+            });
+        });
+    }
+    private seriesSubjects(exclude?: Patch): string[] {
+        return [...this.applied, ...this.popped].filter(
+            p => p !== exclude).map(p => p.description);
     }
     async commentCreatePatch() {
         if (this.commentThread) {
-            const msg = this.commentThread.comments[0].body;
+            const msg = this.commentThread.comments[0].body as string;
+            const violations = msg ?
+                lintCommitMessage(msg, this.seriesSubjects()) : [];
+            if (!await confirmCommitMessage(violations))
+                return;
             this.cancel();
             if (msg) {
-                await run('stg', ['new', '-m', msg as string]);
+                await run('stg', ['new', '-m', msg]);
                 this.refresh();
             }
         }
     }
     async completePatchEdit() {
-        if (this.commentThread) {
-            const msg = this.commentThread.comments[0].body;
-            const editPatch = this.editPatch;
-            this.cancel();
-            if (msg && editPatch) {
-                await run('stg', ['edit', '-m',
-                    msg as string, '--', editPatch.label]);
-                this.reload();
+        if (!this.commentThread)
+            return;
+        const text = this.commentThread.comments[0].body as string;
+        const patches = this.editPatches;
+        const { header, message } = parsePatchHeader(text ?? "");
+        const single = patches.length === 1;
+        if (single && message) {
+            const violations = lintCommitMessage(
+                joinTrailers(message, header.trailers),
+                this.seriesSubjects(patches[0]));
+            if (!await confirmCommitMessage(violations))
+                return;
+        }
+        this.cancel();
+        if (!text || !patches.length || (single && !message))
+            return;
+        for (const patch of patches) {
+            const sha = await patch.getSha();
+            if (!sha)
+                continue;
+            const old = await readPatchHeader(sha);
+            let msg: string;
+            if (single) {
+                msg = joinTrailers(message, header.trailers);
+            } else {
+                const trailers = [...old.header.trailers, ...header.trailers
+                    .filter(t => !old.header.trailers.includes(t))];
+                msg = joinTrailers(old.body, trailers);
             }
+            const args = ['edit', '-m', msg];
+            if (header.author && header.author !== old.header.author)
+                args.push('--author', header.author);
+            if (header.date && header.date !== old.header.date)
+                args.push('--authdate', header.date);
+            const result = await runAndReportErrors(
+                'stg', [...args, '--', patch.label]);
+            if (result.ecode)
+                break;
         }
+        if (!single)
+            patches.forEach(p => p.setMarked(false));
+        this.reload();
+    }
+    async formatSeriesForEmail() {
+        const marked = this.patches.filter(p => p.marked);
+        const patches = marked.length ? marked : this.applied;
+        if (!patches.length || !this.branchName)
+            return;
+        const key = `branch.${this.branchName}.stgitCoverLetter`;
+        const saved = await run(
+            'git', ['config', '--get', key], { inhibitLogging: true });
+        let text: string;
+        if (saved) {
+            // Start the next round of the series from the previous text
+            text = saved.replace(/^Version: *([0-9]+)/m,
+                (_, v) => `Version: ${parseInt(v) + 1}`);
+        } else {
+            text = [
+                'Version: 1', 'To: ', 'Cc: ',
+                `Subject: ${patches[0].description}`, '', ''].join('\n');
+        }
+        this.coverLetterPatches = patches;
+        const line = patches[0].lineNum;
+        this.openCommentEditor(line, text, "stgit-cover", {
+            title: `Cover letter for ${patches.length} patches:`,
+            author: "Cover Letter",
+            label: "(To/Cc are comma separated)",
+        });
+    }
+    async completeCoverLetter() {
+        if (!this.commentThread)
+            return;
+        const text = this.commentThread.comments[0].body as string;
+        const patches = this.coverLetterPatches;
+        this.cancel();
+        if (!text || !patches.length || !this.branchName)
+            return;
+        const [header, ...body] = text.split(/\n\n/);
+        const fields = new Map(header.split('\n').map(s => {
+            const n = s.indexOf(':');
+            return [s.slice(0, n).trim().toLowerCase(), s.slice(n + 1).trim()];
+        }));
+        const version = parseInt(fields.get('version') ?? '1') || 1;
+        const split = (s?: string) => (s ?? '').split(',').map(
+            x => x.trim()).filter(x => x);
+
+        const dirs = await window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            defaultUri: vscode.Uri.file(this.repo.topLevelDir),
+            openLabel: 'Write Patches',
+        });
+        if (!dirs?.length)
+            return;
+        const dir = dirs[0].fsPath;
+        const args = ['--cover-letter', '-o', dir];
+        if (version > 1)
+            args.push(`--reroll-count=${version}`);
+        args.push(...split(fields.get('to')).map(x => `--to=${x}`));
+        args.push(...split(fields.get('cc')).map(x => `--cc=${x}`));
+        const labels = patches.map(p => p.label);
+        if (await hasStGit2()) {
+            const result = await runAndReportErrors(
+                'stg', ['email', 'format', ...args, '--', ...labels]);
+            if (result.ecode)
+                return;
+        } else {
+            // StGit 1 lacks 'stg email format'. The commits given to
+            // 'git format-patch' are written in reverse order, and a
+            // single commit would be taken as the range up to HEAD.
+            const shas = await Promise.all(patches.map(p => p.getSha()));
+            if (shas.some(sha => !sha))
+                return;
+            const revs = shas.length === 1 ? ['-1', ...shas as string[]] :
+                ['--no-walk=unsorted', ...(shas as string[]).reverse()];
+            const result = await runAndReportErrors(
+                'git', ['format-patch', ...args, ...revs]);
+            if (result.ecode)
+                return;
+        }
+
+        // Earlier versions may have been written to the same directory
+        const prefix = version > 1 ? `v${version}-` : '';
+        const file = path.join(dir, `${prefix}0000-cover-letter.patch`);
+        const contents = await fs.readFile(file, 'utf8').catch(() => null);
+        if (contents !== null) {
+            await fs.writeFile(file, contents
+                .replace('*** SUBJECT HERE ***', fields.get('subject') ?? '')
+                .replace('*** BLURB HERE ***', body.join('\n\n').trim()));
+        }
+        const key = `branch.${this.branchName}.stgitCoverLetter`;
+        await run('git', ['config', key, text]);
+        showStatusMessage(`Wrote ${labels.length} patches to '${dir}'`);
     }
     focusWindow() {
         window.showTextDocument(this.doc, {
@@ -684,13 +1340,135 @@ class StGitDoc {
             commands.executeCommand('workbench.action.closeActiveEditor');
         }
     }
+    async cancelOperations() {
+        const n = operationQueue.cancel();
+        if (n)
+            showStatusMessage(`Cancelled ${n} queued operations`);
+        await this.cancel();
+    }
     async cancel() {
         this.commentThread?.dispose();
         this.commentThread = null;
-        this.editPatch = null;
+        this.editPatches = [];
+        this.coverLetterPatches = [];
         await this.closeAllDiffEditors();
         this.focusWindow();
     }
+    async hidePatches() {
+        await this.hideOrUnhidePatches('hide');
+    }
+    async unhidePatches() {
+        await this.hideOrUnhidePatches('unhide');
+    }
+    private async hideOrUnhidePatches(op: 'hide' | 'unhide') {
+        const kinds = op === 'hide' ? ['+', '-'] : ['!'];
+        const marked = this.patches.filter(p => p.marked);
+        const p = this.curPatch;
+        if (!marked.length && p && kinds.includes(p.kind))
+            marked.push(p);
+        const patches = marked.filter(p => kinds.includes(p.kind));
+        if (!patches.length)
+            return;
+        if (patches.length !== marked.length) {
+            if (op === 'hide')
+                info("Only applied or unapplied patches can be hidden.");
+            else
+                info("Only hidden patches can be unhidden.");
+            return;
+        }
+        const labels = patches.map(p => p.label);
+        const result = await runAndReportErrors('stg', [op, '--', ...labels]);
+        if (!result.ecode)
+            patches.forEach(p => p.setMarked(false));
+        this.reload();
+    }
+    async lintSeries() {
+        const patches = [...this.applied, ...this.popped];
+        const results = await Promise.all(patches.map(async (p) => {
+            const msg = await p.getCommitMessage() ?? p.description;
+            const violations = lintCommitMessage(msg, this.seriesSubjects(p));
+            return [p.label, violations] as const;
+        }));
+        this.lintViolations = new Map(results.filter(([, v]) => v.length));
+        this.updateDecorations();
+        const n = this.lintViolations.size;
+        showStatusMessage(n ? `Commit message issues in ${n} patches`
+            : "No commit message issues found");
+    }
+    async testSeries() {
+        const marked = [...this.applied, ...this.popped].filter(
+            p => p.marked);
+        const patches = marked.length ? marked : this.applied;
+        if (!patches.length)
+            return;
+        const dirty = this.workTree.deltas.filter(d => !d.unknown);
+        if (this.index.deltas.length || dirty.length) {
+            info("Work tree and index must be clean to test the series");
+            return;
+        }
+        const command = await window.showInputBox({
+            prompt: `Command to run for each of ${patches.length} patches`,
+            value: getStGitConfig().testCommand,
+        });
+        if (!command)
+            return;
+        const modes = [
+            { label: 'Stop on first failure', stop: true },
+            { label: 'Test all patches', stop: false },
+        ];
+        const mode = await window.showQuickPick(modes, {
+            placeHolder: "Select how to handle failures",
+        });
+        if (!mode)
+            return;
+
+        const top = this.applied.at(-1)?.label;
+        for (const p of patches)
+            this.testResults.delete(p.label);
+        this.updateDecorations();
+        let failed = 0;
+        // Hold the queue so that no other command moves the stack
+        await operationQueue.mutate('test series', async () => {
+            await window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Testing patches',
+                cancellable: true,
+            }, async (progress, token) => {
+                for (const [i, p] of patches.entries()) {
+                    if (token.isCancellationRequested)
+                        break;
+                    progress.report({
+                        message: `${p.label} (${i + 1}/${patches.length})`,
+                        increment: 100 / patches.length,
+                    });
+                    const goto = await runAndReportErrors(
+                        'stg', ['goto', '--', p.label]);
+                    if (goto.ecode)
+                        break;
+                    const result = await runTestCommand(
+                        command, this.repo.topLevelDir, token);
+                    if (token.isCancellationRequested)
+                        break;
+                    this.testResults.set(p.label, result);
+                    this.updateDecorations();
+                    if (!result.passed) {
+                        failed++;
+                        if (mode.stop)
+                            break;
+                    }
+                }
+            });
+            if (top)
+                await runAndReportErrors('stg', ['goto', '--', top]);
+            else
+                await runAndReportErrors('stg', ['pop', '-a']);
+        });
+        this.reload();
+        const tested = patches.filter(p => this.testResults.has(p.label));
+        showStatusMessage(failed ?
+            `${failed} of ${tested.length} patches failed` :
+            `${tested.length} patches passed`);
+    }
     async squashPatches() {
         const patches = this.patches.filter(p => p.marked);
         if (patches.length <= 1)
@@ -742,8 +1520,8 @@ class StGitDoc {
         this.highlightPaths = null;
         this.notifyDirty();
     }
-    async openDiffEditor() {
-        const delta = this.curChange;
+    async openDiffEditor(target = this.cursorTarget) {
+        const delta = target.delta;
         if (delta) {
             const s = `stgit-blob:///${delta.path}`;
             const srcUri = vscode.Uri.parse(`${s}#${delta.srcSha}`);
@@ -778,13 +1556,21 @@ class StGitDoc {
         const mode = modes[labels.indexOf(s)].mode;
         return `,diffmode=${mode}`;
     }
-    async showDiffWithOpts(opts: { preserveFocus: boolean }) {
-        const delta = this.curChange;
-        const patch = this.curPatch;
+    async showDiffWithOpts(
+        opts: { preserveFocus: boolean, target?: Target }
+    ) {
+        const { delta, patch } = opts.target ?? this.cursorTarget;
+        const marked = this.patches.filter(
+            p => p.marked && ['+', '-', '!'].includes(p.kind));
         const sha = await patch?.getSha();
         let spec: string | null = null;
         let invariant = false;
-        if (patch && sha) {
+        if (!opts.target && marked.length > 1) {
+            spec = await this.combinedDiffSpec(marked);
+            if (!spec)
+                return;
+            invariant = true;
+        } else if (patch && sha) {
             const s = `${sha.slice(0, 5)}`;
             if (delta)
                 spec = `diff-${s}-${delta.path}#sha=${sha},file=${delta.path}`;
@@ -806,16 +1592,89 @@ class StGitDoc {
             else
                 spec = `diff-work-tree`;
         }
-        if (spec) {
-            const uri = vscode.Uri.parse(`stgit-diff:///${spec}`);
-            // If the uri is already open, we must force a refresh
-            if (!invariant)
-                refreshDiff(uri);
-            openAndShowDiffDocument(uri, {
-                viewColumn: this.alternateViewColumn,
-                preserveFocus: opts.preserveFocus,
-            });
+        if (spec)
+            this.openDiffSpec(spec, invariant, opts.preserveFocus);
+    }
+    private openDiffSpec(
+        spec: string, invariant: boolean, preserveFocus: boolean
+    ) {
+        const uri = vscode.Uri.parse(`stgit-diff:///${spec}`);
+        // If the uri is already open, we must force a refresh
+        if (!invariant)
+            refreshDiff(uri);
+        openAndShowDiffDocument(uri, {
+            viewColumn: this.alternateViewColumn,
+            preserveFocus: preserveFocus,
+        });
+    }
+    /** Spec of the combined diff of the applied patches marked */
+    private async combinedDiffSpec(marked: Patch[]): Promise<string | null> {
+        if (marked.some(p => !this.applied.includes(p))) {
+            info("Combined diffs can only be shown for applied patches");
+            return null;
         }
+        const first = await marked[0].getSha();
+        const last = await marked[marked.length - 1].getSha();
+        if (!first || !last)
+            return null;
+        const s = `${first.slice(0, 5)}-${last.slice(0, 5)}`;
+        return `diff-${s}#range=${first}..${last}`;
+    }
+    /**
+     * Show the changes between two versions of a patch. The versions are
+     * either two marked patches, or the patch at point and a patch of the
+     * series or the patch with the same name on another branch.
+     */
+    async interdiff() {
+        const kinds = ['+', '-', '!'];
+        const marked = this.patches.filter(
+            p => p.marked && kinds.includes(p.kind));
+        let from: string | null;
+        let to: string | null;
+        if (marked.length > 2) {
+            info("More than two patches are marked");
+            return;
+        } else if (marked.length === 2) {
+            [from, to] = await Promise.all(marked.map(p => p.getSha()));
+        } else {
+            const p = marked[0] ?? this.curPatch;
+            if (!p || !kinds.includes(p.kind))
+                return;
+            from = await this.pickInterdiffBase(p);
+            to = await p.getSha();
+        }
+        if (!from || !to)
+            return;
+        const s = `${from.slice(0, 5)}-${to.slice(0, 5)}`;
+        this.openDiffSpec(
+            `interdiff-${s}#interdiff=${from}..${to}`, true, false);
+    }
+    private async pickInterdiffBase(patch: Patch): Promise<string | null> {
+        const refs = await run('git', [
+            'for-each-ref', '--format=%(objectname) %(refname)',
+            'refs/patches/']);
+        const branchItems = refs.split("\n").filter(x => x).map(s => {
+            const [sha, ref] = s.split(" ");
+            const name = ref.slice('refs/patches/'.length);
+            const i = name.lastIndexOf("/");
+            return { branch: name.slice(0, i), label: name.slice(i + 1), sha };
+        }).filter(x => x.label === patch.label &&
+            x.branch !== this.branchName).map(x => ({
+            label: `${x.branch}: ${x.label}`,
+            description: "same patch on another branch",
+            getSha: async () => x.sha,
+        }));
+        const seriesItems = [...this.applied, ...this.popped].filter(
+            p => p !== patch).map(p => ({
+            label: p.label,
+            description: p.description,
+            getSha: () => p.getSha(),
+        }));
+        const item = await window.showQuickPick(
+            [...branchItems, ...seriesItems], {
+                placeHolder: `Show changes of '${patch.label}' relative to`,
+            });
+        return await item?.getSha() ?? null;
     }
     showDiff() {
         this.showDiffWithOpts({ preserveFocus: true });
@@ -869,18 +1728,227 @@ class StGitDoc {
         return [...local, ...remote].map(
             s => s.replace("*", "").trim()).filter(x => x);
     }
+    async pickPatches() {
+        const cur = this.curPatch;
+        const commit = '$(git-commit) Pick commit';
+        const branches = (await this.allBranches()).filter(
+            b => b !== this.branchName);
+        const source = await window.showQuickPick([commit, ...branches], {
+            placeHolder: "Select branch to pick patches from"
+        });
+        if (!source)
+            return;
+        let args: string[];
+        if (source === commit) {
+            const rev = await window.showInputBox({
+                prompt: `Enter commit to pick`,
+            });
+            if (!rev)
+                return;
+            args = ['--', rev];
+        } else {
+            const result = await runAndReportErrors(
+                'stg', ['series', '-b', source, '-ae', '--description']);
+            if (result.ecode)
+                return;
+            const items = result.stdout.split("\n").filter(x => x).map(s => {
+                const p = StGitPatch.fromSeries(s);
+                return { label: p.label, description: p.description };
+            });
+            if (!items.length) {
+                info(`No patches in '${source}'`);
+                return;
+            }
+            const selected = await window.showQuickPick(items, {
+                canPickMany: true,
+                placeHolder: `Select patches to pick from '${source}'`,
+            });
+            if (!selected?.length)
+                return;
+            args = ['-B', source, '--', ...selected.map(x => x.label)];
+        }
+        const modes = [
+            { label: 'Pick', args: [] },
+            { label: 'Pick as unapplied patches', args: ['--unapplied'] },
+            { label: 'Fold into work tree', args: ['--fold'] },
+        ];
+        const mode = await window.showQuickPick(modes, {
+            placeHolder: "Select how to pick"
+        });
+        if (!mode)
+            return;
+        // Move picked patches below the applied patch following the
+        // cursor. With the cursor elsewhere, they are pushed on top.
+        const i = cur ? this.applied.indexOf(cur) : -1;
+        const next = i < 0 ? null : this.applied[i + 1];
+        await this.doPick(mode.args, args, next?.label);
+    }
+    private async doPick(
+        modeArgs: string[], args: string[], sinkTarget: string | undefined
+    ): Promise<boolean> {
+        const series = await run('stg', ['series', '-a', '--noprefix']);
+        const before = new Set(series.split("\n"));
+        const result = await runWithProgress(
+            'Picking patches', 'stg', ['pick', ...modeArgs, ...args],
+            { retry: () => this.doPick(modeArgs, args, sinkTarget) });
+        // A killed command may leave HEAD and the stack out of sync
+        this.checkForRepair();
+
+        if (!result.ecode && !modeArgs.length && sinkTarget) {
+            const applied = await run('stg', ['series', '-A', '--noprefix']);
+            const picked = applied.split("\n").filter(
+                s => s && !before.has(s));
+            if (picked.length) {
+                await runAndReportErrors(
+                    'stg', ['sink', '-t', sinkTarget, '--', ...picked]);
+            }
+        }
+        this.reload();
+        return result.ecode === 0;
+    }
+    async exportPatches() {
+        const marked = this.patches.filter(p => p.marked);
+        const patches = marked.length ? marked : this.applied;
+        if (!patches.length)
+            return;
+        const formats = [
+            { label: 'Patch files', description: 'directory with series file' },
+            { label: 'Mailbox', description: 'single mbox file' },
+        ];
+        const format = await window.showQuickPick(formats, {
+            placeHolder: `Export ${patches.length} patches as`,
+        });
+        if (!format)
+            return;
+        const defaultUri = vscode.Uri.file(this.repo.topLevelDir);
+        const labels = patches.map(p => p.label);
+        if (format === formats[0]) {
+            const dirs = await window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                defaultUri: defaultUri,
+                openLabel: 'Export',
+            });
+            if (!dirs?.length)
+                return;
+            const dir = dirs[0].fsPath;
+            const result = await runAndReportErrors(
+                'stg', ['export', '-d', dir, '--', ...labels]);
+            if (!result.ecode)
+                showStatusMessage(`Exported ${labels.length} patches`);
+        } else {
+            const file = await window.showSaveDialog({
+                defaultUri: vscode.Uri.joinPath(defaultUri, 'series.mbox'),
+                saveLabel: 'Export',
+            });
+            if (!file)
+                return;
+            const mails: string[] = [];
+            for (const p of patches) {
+                const sha = await p.getSha();
+                if (!sha)
+                    return;
+                const result = await runAndReportErrors('git', [
+                    'format-patch', '-1', '--stdout', sha], { trim: false });
+                if (result.ecode)
+                    return;
+                mails.push(result.stdout);
+            }
+            await fs.writeFile(file.fsPath, mails.join(""));
+            showStatusMessage(`Exported ${labels.length} patches`);
+        }
+    }
+    async importPatches() {
+        const uris = await window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: true,
+            defaultUri: vscode.Uri.file(this.repo.topLevelDir),
+            openLabel: 'Import',
+            filters: {
+                'Patches': ['patch', 'diff', 'mbox', 'eml'],
+                'All files': ['*'],
+            },
+        });
+        if (!uris?.length)
+            return;
+        const src = uris[0].fsPath;
+        await window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Importing patches',
+            cancellable: true,
+        }, (progress, token) => this.doImportPatches(src, progress, token));
+        this.checkForRepair();
+        this.reload();
+    }
+    private async doImportPatches(
+        src: string,
+        progress: vscode.Progress<{ message?: string }>,
+        token: vscode.CancellationToken,
+    ) {
+        const failures: string[] = [];
+        const importPatch = async (file: string, args: string[]) => {
+            if (token.isCancellationRequested)
+                return;
+            progress.report({ message: path.basename(file) });
+            const result = await runCommand(
+                'stg', ['import', ...args, '--', file],
+                { cancellation: token });
+            if (result.ecode) {
+                const name = path.basename(file);
+                log(result.stderr);
+                failures.push(`${name}: ${result.stderr.split("\n")[0]}`);
+            }
+        };
+        if ((await fs.stat(src)).isDirectory()) {
+            const series = await fs.readFile(path.join(src, 'series'), 'utf8')
+                .catch(() => null);
+            if (series === null) {
+                info(`No series file in '${src}'`);
+                return;
+            }
+            const files = series.split("\n").map(s => s.trim()).filter(
+                s => s && !s.startsWith('#'));
+            for (const file of files)
+                await importPatch(path.join(src, file), []);
+        } else if ((await fs.readFile(src, 'utf8')).startsWith('From ')) {
+            await withTempDir(async (tempDir) => {
+                const result = await runAndReportErrors(
+                    'git', ['mailsplit', `-o${tempDir}`, src]);
+                if (result.ecode)
+                    return;
+                const mails = (await fs.readdir(tempDir)).sort();
+                for (const mail of mails)
+                    await importPatch(path.join(tempDir, mail), ['-m']);
+            });
+        } else {
+            await importPatch(src, []);
+        }
+        if (failures.length) {
+            const s = failures.length === 1 ? '' : 'es';
+            info(`Failed to import ${failures.length} patch${s}:` +
+                ` ${failures.join('; ')}`);
+        }
+    }
     async rebase() {
         const base = await window.showQuickPick(this.allBranches(), {
             placeHolder: "Select upstream branch for rebase"
         });
-        if (base) {
-            const result = await runAndReportErrors(
-                'stg', ['rebase', '--', base]);
-            this.reload();
-            if (result.ecode === 0) {
-                showStatusMessage(`Rebased series on top of '${base}'`);
-            }
+        if (base)
+            await this.doRebase(base);
+    }
+    private async doRebase(base: string): Promise<boolean> {
+        this.resumeLabels = this.applied.map(p => p.label);
+        const result = await runWithProgress(
+            `Rebasing on '${base}'`, 'stg', ['rebase', '--', base],
+            { retry: () => this.doRebase(base) });
+        this.checkForRepair();
+        if (!result.ecode)
+            this.resumeLabels = [];
+        this.reload();
+        if (result.ecode === 0) {
+            showStatusMessage(`Rebased series on top of '${base}'`);
         }
+        return result.ecode === 0;
     }
 
     async selectRemote() {
@@ -944,13 +2012,18 @@ class StGitDoc {
         if (!this.remoteName)
             await this.selectRemote();
         if (this.remoteName) {
-            const result = await runAndReportErrors(
-                'git', ['fetch', this.remoteName]);
+            const result = await runWithProgress(
+                `Fetching '${this.remoteName}'`,
+                'git', ['fetch', this.remoteName], {
+                    env: await getAskpassEnv(),
+                    errorMsg: authenticationErrorMessage,
+                });
+            this.checkForRepair();
             if (result.ecode === 0) {
                 log(`git fetch ${this.remoteName}: success`);
+                showStatusMessage(`Fetched '${this.remoteName}'`);
             }
         }
-        showStatusMessage(`Fetched '${this.remoteName}'`);
     }
 
     async gitPush(kind: 'force' | 'fast-forward') {
@@ -966,9 +2039,13 @@ class StGitDoc {
         if (!await getUserConfirmation(confirmationMsg))
             return;
 
-        const result = await runAndReportErrors(
-            'git', ['push', this.remoteName, spec],
-            { errorMsg: 'push failed' });
+        const result = await runWithProgress(
+            `Pushing to '${this.remoteName}'`,
+            'git', ['push', this.remoteName, spec], {
+                env: await getAskpassEnv(),
+                errorMsg: (s) => authenticationErrorMessage(s) ?? 'push failed',
+            });
+        this.checkForRepair();
         if (result.ecode !== 0)
             return;
         log(`git push ${this.remoteName} ${spec}: success`);
@@ -1010,6 +2087,9 @@ class StGitDoc {
         } else if (patch && patch.lineNum === this.curLine) {
             await patch.toggleExpanded();
             this.notifyDirty();
+        } else if (this.hidden.length && this.curLine === this.hiddenLineNum) {
+            this.hiddenExpanded = !this.hiddenExpanded;
+            this.notifyDirty();
         } else {
             const line = this.editor?.document.lineAt(this.curLine);
             if (line?.text.startsWith('!')) {
@@ -1031,10 +2111,81 @@ class StGitDoc {
             }
         }
     }
-    async toggleChanges() {
-        // Move changes between index and work tree
-        const patch = this.curPatch;
+    private get conflicts(): Delta[] {
+        return this.index.deltas.filter(d => d.conflict);
+    }
+    private get conflictTarget(): Delta | null {
         const change = this.curChange;
+        if (change?.conflict)
+            return change;
+        if (!change && this.conflicts.length === 1)
+            return this.conflicts[0];
+        info("No merge conflict selected");
+        return null;
+    }
+    async openMergeEditor() {
+        const delta = this.conflictTarget;
+        if (!delta)
+            return;
+        if (![1, 2, 3].every(stage => delta.stageSha(stage))) {
+            info("The merge editor needs a base and both sides of" +
+                ` '${delta.path}', take ours or theirs instead`);
+            return;
+        }
+        // The merge editor reads the stages from the index
+        const uri = this.repo.getPathUri(delta.path);
+        try {
+            await commands.executeCommand('git.openMergeEditor', uri);
+        } catch {
+            // The built-in Git extension is disabled
+            await window.showTextDocument(uri);
+        }
+    }
+    async takeOursOrTheirs(side: 'ours' | 'theirs') {
+        const delta = this.conflictTarget;
+        if (!delta)
+            return;
+        const result = await runAndReportErrors(
+            'git', ['checkout', `--${side}`, '--', delta.path]);
+        if (!result.ecode)
+            await run('git', ['add', '--', delta.path]);
+        this.reloadIndexAndWorkTree();
+    }
+    async continueAfterConflict() {
+        const conflicts = this.conflicts.map(d => d.path);
+        if (conflicts.length) {
+            const n = conflicts.length;
+            const msg = `Mark ${n} conflicted file${n === 1 ? '' : 's'}` +
+                ' as resolved?';
+            if (!await getUserConfirmation(msg))
+                return;
+            await run('git', ['add', '--', ...conflicts]);
+        }
+        const refresh = await runAndReportErrors('stg', ['refresh']);
+        if (!refresh.ecode) {
+            const remaining = this.popped.map(p => p.label).filter(
+                label => this.resumeLabels.includes(label));
+            if (remaining.length) {
+                await this.pushPatches(['push', '--', ...remaining], remaining);
+                return;
+            }
+            this.resumeLabels = [];
+        }
+        this.reload();
+    }
+    async abortAfterConflict() {
+        const msg = 'Abort and undo the operation causing the conflict?' +
+            ' Files not checked in could potentially be overwritten.';
+        if (!await getUserConfirmation(msg))
+            return;
+        await runAndReportErrors('stg', ['undo', '--hard']);
+        this.resumeLabels = [];
+        this.reload();
+    }
+    async toggleChanges(target = this.cursorTarget) {
+        // Move changes between index and work tree
+        const patch = target.patch;
+        const change = target.delta;
         if (change?.conflict) {
             info("Conflicts must be marked as resolved (shift-R).");
             return;
@@ -1063,9 +2214,9 @@ class StGitDoc {
             this.reload();
         }
     }
-    async revertChanges() {
-        const patch = this.curPatch;
-        const change = this.curChange;
+    async revertChanges(target = this.cursorTarget) {
+        const patch = target.patch;
+        const change = target.delta;
         if (patch?.kind === 'I') {
             if (change) {
                 log(['git', 'restore', '-WS', '--', change.path].join(" "));
@@ -1102,6 +2253,23 @@ class StGitDoc {
         await runAndReportErrors('stg', ['undo', '--hard']);
         this.reload();
     }
+    async showStackLog() {
+        if (!this.branchName)
+            return;
+        const column = this.alternateViewColumn;
+        if (await browseStackLog(this.branchName, column))
+            this.reload();
+    }
+    showPatchHistory() {
+        const p = this.curPatch;
+        if (!this.branchName || !p?.label)
+            return;
+        showPatchHistory(this.branchName, p.label, this.alternateViewColumn);
+    }
+    showRangeDiff() {
+        if (this.branchName)
+            showRangeDiff(this.branchName, this.alternateViewColumn);
+    }
     async redo() {
         await runAndReportErrors('stg', ['redo']);
         this.reload();
@@ -1111,8 +2279,8 @@ class StGitDoc {
         this.reload();
     }
     async pushNextPatch() {
-        await runAndReportErrors('stg', ['push']);
-        this.reload();
+        const next = this.popped[0];
+        await this.pushPatches(['push'], next ? [next.label] : []);
     }
     async setHistorySize() {
         const numStr = await window.showQuickPick([
@@ -1143,6 +2311,97 @@ class StGitDoc {
         this.reloadWorkTree();
     }
 
+    async sourceControlAction(
+        action: 'open' | 'stage' | 'revert' | 'pushOrPop',
+        resources: ScmResource<Target>[],
+    ) {
+        // Unchanged resources are not updated when the patches are
+        // reloaded, so the patches are looked up again
+        const targets = resources.map(({ source }) => {
+            const label = source.patch?.label;
+            const patch = label ? this.findPatch(label) : source.patch;
+            return { ...source, patch };
+        });
+        if (action === 'open') {
+            const target = targets[0];
+            if (target?.delta)
+                this.openDiffEditor(target);
+            else if (target)
+                this.showDiffWithOpts({ preserveFocus: false, target });
+        } else if (action === 'stage') {
+            for (const target of targets)
+                await this.toggleChanges(target);
+        } else if (action === 'revert') {
+            const n = targets.length;
+            const msg = `Revert changes in ${n} file${n === 1 ? '' : 's'}?`;
+            if (!await getUserConfirmation(msg))
+                return;
+            for (const target of targets)
+                await this.revertChanges(target);
+        } else {
+            const patches = targets.map(t => t.patch).filter(
+                (p): p is Patch => p !== null);
+            await this.pushOrPopPatches(patches);
+        }
+    }
+    private async getOriginalResource(uri: vscode.Uri) {
+        if (uri.scheme !== 'file')
+            return null;
+        const file = path.relative(this.repo.topLevelDir, uri.fsPath);
+        if (file.startsWith('..') || path.isAbsolute(file))
+            return null;
+        const top = this.applied.at(-1);
+        const sha = await top?.getSha();
+        const rev = sha ? `${sha}^` : 'HEAD';
+        return vscode.Uri.from({
+            scheme: 'stgit-blob', path: `/${file}`, fragment: `${rev}:${file}`
+        });
+    }
+    private updateSourceControl() {
+        if (this.sourceControl?.repo !== this.repo) {
+            this.sourceControl?.dispose();
+            this.sourceControl = new StGitSourceControl(
+                this.repo, uri => this.getOriginalResource(uri));
+        }
+        const withOpenCommand = (r: ScmResource<Target>) => ({
+            ...r,
+            command: {
+                command: 'stgit.scmOpen', title: 'Open', arguments: [r]
+            },
+        });
+        const fileResources = (patch: Patch) => patch.deltas.map(
+            delta => withOpenCommand({
+                resourceUri: this.repo.getPathUri(delta.path),
+                decorations: {
+                    tooltip: delta.statusMessage,
+                    strikeThrough: delta.deleted,
+                    faded: delta.unknown,
+                },
+                fileDecoration: delta.fileDecoration,
+                source: { patch, delta },
+            }));
+        const top = this.applied.at(-1);
+        const patchResources = (patches: Patch[]) => patches.map(
+            patch => withOpenCommand({
+                resourceUri: vscode.Uri.from({
+                    scheme: 'stgit-patch', path: `/${patch.label}`
+                }),
+                decorations: {
+                    tooltip: patch.description,
+                    faded: patch.kind === '-',
+                    iconPath: new vscode.ThemeIcon(
+                        patch === top ? 'arrow-right' : 'git-commit'),
+                },
+                source: { patch, delta: null },
+            }));
+        const sc = this.sourceControl;
+        sc.update('index', fileResources(this.index));
+        sc.update('workTree', fileResources(this.workTree));
+        sc.update('applied', patchResources([...this.applied].reverse()));
+        sc.update('popped', patchResources(this.popped));
+        sc.count = this.index.deltas.length + this.workTree.deltas.length;
+    }
+
     private moveCursorToNextPatch() {
         const list = this.patches;
         const curPatch = this.curPatch;
@@ -1192,6 +2451,25 @@ class StGitDoc {
                 p => new vscode.Range(p.lineNum, 2, p.lineNum, 2));
         this.historyRanges = this.history.map(
             p => new vscode.Range(p.lineNum, 0, p.lineNum, 999));
+        this.lintRanges = [];
+        for (const p of [...this.applied, ...this.popped]) {
+            const violations = this.lintViolations.get(p.label);
+            if (!violations)
+                continue;
+            this.lintRanges.push({
+                range: new vscode.Range(p.lineNum, 2, p.lineNum, 999),
+                hoverMessage: violations.join("\n\n"),
+                renderOptions: { after: { contentText: violations[0] } },
+            });
+        }
+        this.testRanges = [];
+        for (const p of [...this.applied, ...this.popped]) {
+            const result = this.testResults.get(p.label);
+            if (result) {
+                const range = new vscode.Range(p.lineNum, 2, p.lineNum, 999);
+                this.testRanges.push(testResultDecoration(range, result));
+            }
+        }
         this.updateEditorDecorations();
     }
 
@@ -1205,6 +2483,8 @@ class StGitDoc {
                 cls.fileHighlightDecoration, this.highlightRanges);
             editor.setDecorations(
                 cls.historyDecoration, this.historyRanges);
+            editor.setDecorations(cls.lintDecoration, this.lintRanges);
+            editor.setDecorations(cls.testDecoration, this.testRanges);
         }
     }
 
@@ -1228,6 +2508,31 @@ class StGitDoc {
         }
         return null;
     }
+    private findPatch(label: string): Patch | null {
+        const patches = [...this.applied, ...this.popped, ...this.hidden];
+        return patches.find(p => p.label === label) ?? null;
+    }
+    async provideHover(
+        pos: vscode.Position
+    ): Promise<vscode.Hover | null> {
+        const patch = this.patches.find(
+            p => p.lineNum <= pos.line && pos.line < p.lineNum + p.lineCount);
+        if (!patch)
+            return null;
+        if (pos.line > patch.lineNum) {
+            const delta = patch.deltas[pos.line - patch.lineNum - 1];
+            if (!delta)
+                return null;
+            return new vscode.Hover(
+                new vscode.MarkdownString().appendCodeblock(
+                    delta.hoverText, 'text'));
+        }
+        const md = await patch.getHoverMarkdown();
+        return md ? new vscode.Hover(md) : null;
+    }
+    private get cursorTarget(): Target {
+        return { patch: this.curPatch, delta: this.curChange };
+    }
     private get curChange(): Delta | null {
         const line = this.curLine;
         for (const p of this.patches) {
@@ -1251,7 +2556,18 @@ class StGitDoc {
 
     get documentContents(): string {
         const b = this.branchName ?? this.baseSha?.slice(0, 16) ?? "<unknown>";
-        const lines = [`Branch: ${b}${this.upstreamString}`, ""];
+        // The description must not break the line
+        const running = operationQueue.runningDescription?.split("\n")[0]
+            .slice(0, 40);
+        const busy = running ? `  [running: ${running}]` : '';
+        const lines = [`Branch: ${b}${this.upstreamString}${busy}`];
+        if (this.conflicts.length) {
+            const top = this.applied.at(-1)?.label;
+            const what = top ? `Patch '${top}'` : "Operation";
+            lines.push(`Conflict: ${what} failed to apply` +
+                " (continue: C-c C-r, abort: C-c C-k)");
+        }
+        lines.push("");
         function pushVec(patches: Patch[]) {
             for (const p of patches) {
                 const patchLines = p.getLines();
@@ -1272,9 +2588,19 @@ class StGitDoc {
         pushVec([this.index]);
         pushVec([this.workTree]);
         pushVec(this.popped);
+        this.hiddenLineNum = -1;
+        if (this.hidden.length) {
+            this.hiddenLineNum = lines.length;
+            const n = this.hidden.length;
+            lines.push(`  Hidden (${n} patch${n === 1 ? '' : 'es'})`);
+            if (this.hiddenExpanded)
+                pushVec(this.hidden);
+        }
 
         this.updateDecorations();
-        return lines.join("\n") + "\n--\n";
+        const contents = lines.join("\n") + "\n--\n";
+        this.renderEmitter.fire(contents);
+        return contents;
     }
 }
 
@@ -1282,6 +2608,7 @@ class StGitMode {
     static instance: StGitMode | null;
 
     private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly workspaceState: vscode.Memento;
     private commentController = vscode.comments.createCommentController(
         'stgit.comments', "StGit");
 
@@ -1294,7 +2621,18 @@ class StGitMode {
         dark: { color: "#777", },
         light: { color: "#999", },
     });
+    readonly testDecoration = window.createTextEditorDecorationType({
+        after: { margin: '0 0 0 2em' },
+    });
+    readonly lintDecoration = window.createTextEditorDecorationType({
+        textDecoration: 'underline wavy',
+        after: {
+            margin: '0 0 0 3em',
+            color: new vscode.ThemeColor('editorWarning.foreground'),
+        },
+    });
     constructor(context: vscode.ExtensionContext) {
+        this.workspaceState = context.workspaceState;
         const provider: vscode.TextDocumentContentProvider = {
             onDidChange: this.changeEmitter.event,
             provideTextDocumentContent: (uri: vscode.Uri, token) => {
@@ -1304,7 +2642,9 @@ class StGitMode {
         function cmd(cmd: string, func: () => void) {
             return commands.registerTextEditorCommand(`stgit.${cmd}`, func);
         }
-        function globalCmd(cmd: string, func: () => void) {
+        function globalCmd<A extends unknown[]>(
+            cmd: string, func: (...args: A) => void
+        ) {
             return commands.registerCommand(`stgit.${cmd}`, func);
         }
         context.subscriptions.push(
@@ -1314,9 +2654,13 @@ class StGitMode {
             cmd('refresh', () => this.stgit?.refresh()),
             cmd('repair', () => this.stgit?.repair()),
             cmd('refreshSpecific', () => this.stgit?.refreshSpecific()),
+            cmd('absorb', () => this.stgit?.absorb()),
             cmd('createBranch', () => this.stgit?.createBranch()),
             cmd('switchBranch', () => this.stgit?.switchBranch()),
             cmd('rebase', () => this.stgit?.rebase()),
+            cmd('pickPatches', () => this.stgit?.pickPatches()),
+            cmd('exportPatches', () => this.stgit?.exportPatches()),
+            cmd('importPatches', () => this.stgit?.importPatches()),
             cmd('gitFetch', () => this.stgit?.gitFetch()),
             cmd('gitPush', () => this.stgit?.gitPush('fast-forward')),
             cmd('gitForcePush', () => this.stgit?.gitPush('force')),
@@ -1325,6 +2669,13 @@ class StGitMode {
                 () => this.stgit?.selectUpstreamBranch()),
             cmd('reload', () => this.stgit?.reload()),
             cmd('resolveConflict', () => this.stgit?.resolveConflict()),
+            cmd('openMergeEditor', () => this.stgit?.openMergeEditor()),
+            cmd('takeOurs', () => this.stgit?.takeOursOrTheirs('ours')),
+            cmd('takeTheirs', () => this.stgit?.takeOursOrTheirs('theirs')),
+            cmd('continueAfterConflict',
+                () => this.stgit?.continueAfterConflict()),
+            cmd('abortAfterConflict',
+                () => this.stgit?.abortAfterConflict()),
             cmd('gotoPatch', () => this.stgit?.gotoPatch()),
             cmd('markPatch', () => this.stgit?.markPatch()),
             cmd('unmarkPatch', () => this.stgit?.unmarkPatch()),
@@ -1340,9 +2691,21 @@ class StGitMode {
             cmd('movePatchesTo', () => this.stgit?.movePatchesTo()),
             cmd('commentCreatePatch', () => this.stgit?.commentCreatePatch()),
             cmd('completePatchEdit', () => this.stgit?.completePatchEdit()),
-            cmd('cancel', () => this.stgit?.cancel()),
+            cmd('formatSeriesForEmail',
+                () => this.stgit?.formatSeriesForEmail()),
+            cmd('completeCoverLetter',
+                () => this.stgit?.completeCoverLetter()),
+            cmd('cancel', () => this.stgit?.cancelOperations()),
             cmd('editCommitMessage', () => this.stgit?.editCommitMessage()),
             cmd('squashPatches', () => this.stgit?.squashPatches()),
+            cmd('lintSeries', () => this.stgit?.lintSeries()),
+            cmd('testSeries', () => this.stgit?.testSeries()),
+            cmd('hidePatches', () => this.stgit?.hidePatches()),
+            cmd('unhidePatches', () => this.stgit?.unhidePatches()),
+            cmd('splitPatch', () => this.stgit?.splitPatch()),
+            cmd('interdiff', () => this.stgit?.interdiff()),
+            cmd('showPatchHistory', () => this.stgit?.showPatchHistory()),
+            cmd('rangeDiff', () => this.stgit?.showRangeDiff()),
             cmd('deletePatches', () => this.stgit?.deletePatches()),
             cmd('highlightFile', () => this.stgit?.highlightFile()),
             cmd('cancelHighlighting', () => this.stgit?.cancelHighlighting()),
@@ -1356,9 +2719,25 @@ class StGitMode {
             cmd('undo', () => this.stgit?.undo()),
             cmd('hardUndo', () => this.stgit?.hardUndo()),
             cmd('redo', () => this.stgit?.redo()),
+            cmd('showStackLog', () => this.stgit?.showStackLog()),
             cmd('help', () => this.stgit?.help()),
 
+            globalCmd('scmOpen', (...resources: ScmResource<Target>[]) =>
+                this.stgit?.sourceControlAction('open', resources)),
+            globalCmd('scmStage', (...resources: ScmResource<Target>[]) =>
+                this.stgit?.sourceControlAction('stage', resources)),
+            globalCmd('scmUnstage', (...resources: ScmResource<Target>[]) =>
+                this.stgit?.sourceControlAction('stage', resources)),
+            globalCmd('scmRevert', (...resources: ScmResource<Target>[]) =>
+                this.stgit?.sourceControlAction('revert', resources)),
+            globalCmd('scmPushOrPop', (...resources: ScmResource<Target>[]) =>
+                this.stgit?.sourceControlAction('pushOrPop', resources)),
+
             workspace.registerTextDocumentContentProvider('stgit', provider),
+            vscode.languages.registerHoverProvider({ scheme: 'stgit' }, {
+                provideHover: (doc, pos) => (doc === this.stgit?.doc) ?
+                    this.stgit.provideHover(pos) : null,
+            }),
 
             workspace.onDidCloseTextDocument((doc) => {
                 if (doc === this.stgit?.doc) {
@@ -1380,6 +2759,8 @@ class StGitMode {
 
         this.fileHighlightDecoration.dispose();
         this.historyDecoration.dispose();
+        this.lintDecoration.dispose();
+        this.testDecoration.dispose();
     }
     private async openStgit() {
         if (this.stgit) {
@@ -1404,7 +2785,7 @@ class StGitMode {
             const doc = await workspace.openTextDocument(this.uri);
             this.stgit = new StGitDoc(doc, repo,
                 () => this.changeEmitter.fire(doc.uri),
-                this.commentController);
+                this.commentController, this.workspaceState);
         }
     }
     private get uri() {
@@ -1412,6 +2793,11 @@ class StGitMode {
     }
 }
 
+const patchesReloadEmitter = new vscode.EventEmitter<void>();
+
+/** Fires when the patches of the stack have been reloaded */
+export const onDidReloadPatches = patchesReloadEmitter.event;
+
 export function registerStGitMode(context: vscode.ExtensionContext) {
     StGitMode.instance = new StGitMode(context);
 }
@@ -1419,3 +2805,22 @@ export function registerStGitMode(context: vscode.ExtensionContext) {
 export function reloadIndexAndWorkTree() {
     StGitMode.instance?.stgit?.reloadIndexAndWorkTree();
 }
+
+export function reloadStGit() {
+    StGitMode.instance?.stgit?.reload();
+}
+
+export async function editPatchMessage(label: string) {
+    await commands.executeCommand('stgit.open');
+    await StGitMode.instance?.stgit?.editPatchMessage(label);
+}
+
+export function moveHunk(sha: string, hunk: FileHunk, toPatch: boolean) {
+    StGitMode.instance?.stgit?.moveHunk(sha, hunk, toPatch);
+}
+
+export async function splitPatch(
+    label: string, groups: Map<string, string | null>[]
+): Promise<boolean> {
+    return await StGitMode.instance?.stgit?.applySplit(label, groups) ?? false;
+}
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { FileHunk, HunkText, parseEditedHunk } from '../../diff-mode';
+
+suite('HunkText.fromSelection', () => {
+    const hunk = [" a", "-b", "-c", "+B", "+C", " d"];
+    const selected = (i: number) => i === 1 || i === 3;
+
+    test('Apply selected lines', () => {
+        const [src, dest] = HunkText.fromSelection(hunk, 4, selected, false)!;
+        assert.deepStrictEqual(src.text, ["a", "b", "c", "d"]);
+        assert.deepStrictEqual(dest.text, ["a", "c", "B", "d"]);
+        assert.strictEqual(src.srcLine, 4);
+    });
+
+    test('Revert selected lines', () => {
+        const [src, dest] = HunkText.fromSelection(hunk, 4, selected, true)!;
+        assert.deepStrictEqual(src.text, ["a", "B", "C", "d"]);
+        assert.deepStrictEqual(dest.text, ["a", "b", "C", "d"]);
+    });
+
+    test('Selection without changes', () => {
+        assert.strictEqual(
+            HunkText.fromSelection(hunk, 0, i => i === 0, false), null);
+    });
+
+    test('Missing newline at end of file', () => {
+        const lines = [" a", "-b", "+c", "\\ No newline at end of file"];
+        const [src, dest] =
+            HunkText.fromSelection(lines, 0, () => true, false)!;
+        assert.deepStrictEqual(dest.text, ["a", "c"]);
+        assert.strictEqual(src.missingNewline, false);
+        assert.strictEqual(dest.missingNewline, true);
+    });
+});
+
+suite('parseEditedHunk', () => {
+    test('Header is recounted and empty lines are context', () => {
+        const hunk = parseEditedHunk("@@ -3,2 +3,2 @@ fn\n a\n-b\n+B\n+C\n\n");
+        assert.ok(typeof hunk !== 'string');
+        assert.deepStrictEqual(hunk.fromText.text, ["a", "b", ""]);
+        assert.deepStrictEqual(hunk.toText.text, ["a", "B", "C", ""]);
+        assert.strictEqual(hunk.fromText.srcLine, 2);
+        assert.strictEqual(hunk.numHunkLines, 6);
+    });
+
+    test('Missing newline marker', () => {
+        const hunk = parseEditedHunk(
+            "@@ -1 +1 @@\n-a\n+b\n\\ No newline at end of file\n");
+        assert.ok(typeof hunk !== 'string');
+        assert.strictEqual(hunk.toText.missingNewline, true);
+    });
+
+    test('Malformed header', () => {
+        assert.strictEqual(parseEditedHunk("@@ bad\n-a\n"),
+            "Line 1: malformed '@@' header");
+    });
+
+    test('Malformed line', () => {
+        assert.strictEqual(parseEditedHunk("@@ -1 +1 @@\n-a\n*b\n"),
+            "Line 3: expected a line starting with ' ', '+' or '-'");
+    });
+
+    test('Hunk without changes', () => {
+        assert.strictEqual(parseEditedHunk("@@ -1 +1 @@\n a\n"),
+            "The hunk contains no changes");
+    });
+});
+
+suite('FileHunk.applyTo', () => {
+    const diff = "diff --git a/f b/f\n--- a/f\n+++ b/f\n" +
+        "@@ -2,3 +2,3 @@\n a\n-b\n+B\n c\n";
+    const [hunk] = FileHunk.fromDiff(diff);
+
+    test('Hunks of a diff', () => {
+        assert.strictEqual(FileHunk.fromDiff(diff).length, 1);
+        assert.strictEqual(hunk.path, "f");
+        assert.strictEqual(hunk.srcLine, 1);
+        assert.deepStrictEqual(hunk.srcLines, [2]);
+    });
+
+    test('Apply', () => {
+        assert.strictEqual(hunk.applyTo("x\na\nb\nc\n"), "x\na\nB\nc\n");
+    });
+
+    test('Moved context', () => {
+        assert.strictEqual(
+            hunk.applyTo("x\ny\nz\na\nb\nc\n"), "x\ny\nz\na\nB\nc\n");
+    });
+
+    test('Line endings are kept', () => {
+        assert.strictEqual(
+            hunk.applyTo("x\r\na\r\nb\r\nc\r\n"), "x\r\na\r\nB\r\nc\r\n");
+    });
+
+    test('Mismatching text', () => {
+        assert.strictEqual(hunk.applyTo("x\na\nB\nc\n"), null);
+    });
+});
+
+suite('FileHunk.applyTo with moved hunks', () => {
+    const diff = "--- a/f\n+++ b/f\n@@ -1,4 +1,4 @@\n a\n-b\n-c\n+B\n+C\n d\n";
+    const [hunk] = FileHunk.fromDiff(diff);
+    const [pre, post] = ["a\nb\nc\nd\n", "a\nB\nC\nd\n"];
+
+    test('Revert and reapply', () => {
+        assert.strictEqual(hunk.applyTo(post, 'revert'), pre);
+        assert.strictEqual(hunk.applyTo(pre, 'reapply'), post);
+    });
+
+    test('Selected lines', () => {
+        // The changes of the lines '-b' and '+B'
+        const selected = hunk.withSelection(i => i === 1 || i === 3)!;
+        const reverted = selected.applyTo(post, 'revert');
+        assert.strictEqual(reverted, "a\nb\nC\nd\n");
+        assert.strictEqual(selected.applyTo(reverted!, 'reapply'), post);
+        assert.strictEqual(selected.applyTo(pre), "a\nc\nB\nd\n");
+    });
+
+    test('Selection without changes', () => {
+        assert.strictEqual(hunk.withSelection(i => i === 0), null);
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { classifyError } from '../../errors';
+
+suite('classifyError', () => {
+    test('Conflicts of StGit 1 and 2', () => {
+        const stg2 = "CONFLICT (content): Merge conflict in a.txt\n" +
+            "error: Merge conflicts";
+        assert.strictEqual(
+            classifyError('stg', ['push'], stg2)?.kind, 'conflict');
+        assert.strictEqual(
+            classifyError('stg', ['goto', 'p'],
+                "Error: The merge failed during \"push\".\n" +
+                "Error: merge conflicts")?.kind, 'conflict');
+    });
+
+    test('Message is the matching line', () => {
+        const stderr = "Checking for changes in the working directory\n" +
+            "error: Worktree not clean. Use \"refresh\" or \"reset --hard\"";
+        assert.deepStrictEqual(classifyError('stg', ['pop'], stderr), {
+            kind: 'dirty',
+            message: "error: Worktree not clean." +
+                " Use \"refresh\" or \"reset --hard\"",
+            command: 'stg',
+            args: ['pop'],
+            opts: undefined,
+        });
+    });
+
+    test('Patterns are limited to their commands', () => {
+        const rejected =
+            " ! [rejected]        main -> main (non-fast-forward)";
+        assert.strictEqual(
+            classifyError('git', ['push', 'origin'], rejected)?.kind,
+            'nonFastForward');
+        assert.strictEqual(classifyError('git', ['fetch'], rejected), null);
+        assert.strictEqual(
+            classifyError('stg', ['refresh'], "CONFLICT (content)"), null);
+    });
+
+    test('Patterns are anchored', () => {
+        const stderr = "hint: error: HEAD and stack top are not the same";
+        assert.strictEqual(classifyError('stg', ['push'], stderr), null);
+        assert.strictEqual(
+            classifyError('stg', ['push'],
+                "error: HEAD and stack top are not the same")?.kind,
+            'needsRepair');
+    });
+
+    test('Unknown errors', () => {
+        assert.strictEqual(
+            classifyError('git', ['status'], "fatal: not a git repository"),
+            null);
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { lintCommitMessage } from '../../lint';
+
+// The checks use the default configuration
+suite('lintCommitMessage', () => {
+    suiteSetup(async () => {
+        await vscode.extensions.getExtension('samuelrydh.stgit')?.activate();
+    });
+
+    test('Well-formed message', () => {
+        const msg = "Fix the parser\n\nThe parser failed on empty input.\n";
+        assert.deepStrictEqual(lintCommitMessage(msg, []), []);
+    });
+
+    test('Long subject', () => {
+        const msg = "Fix ".repeat(13);
+        assert.deepStrictEqual(lintCommitMessage(msg, []),
+            ["Subject is longer than 50 characters"]);
+    });
+
+    test('Second line not blank', () => {
+        assert.deepStrictEqual(lintCommitMessage("Subject\nBody", []),
+            ["Second line is not blank"]);
+    });
+
+    test('Long body lines', () => {
+        const long = "word ".repeat(15);
+        const url = "https://example.com/" + "x".repeat(80);
+        const msg = `Subject\n\n${long}\n${url}`;
+        assert.deepStrictEqual(lintCommitMessage(msg, []),
+            ["Line 3 is longer than 72 characters"]);
+    });
+
+    test('Subject used by another patch', () => {
+        assert.deepStrictEqual(lintCommitMessage("Subject", ["Subject"]),
+            ["Subject is used by another patch in the series"]);
+    });
+});
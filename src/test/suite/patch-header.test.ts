@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import {
+    formatPatchHeader, joinTrailers, parsePatchHeader, splitTrailers
+} from '../../patch-header';
+
+suite('splitTrailers', () => {
+    test('Trailer block', () => {
+        assert.deepStrictEqual(
+            splitTrailers("Subject\n\nBody\n\nAcked-by: A <a@b>\n"), {
+                body: "Subject\n\nBody",
+                trailers: ["Acked-by: A <a@b>"],
+            });
+    });
+
+    test('Last paragraph with other lines', () => {
+        const msg = "Subject\n\nAcked-by: A <a@b>\nNot a trailer";
+        assert.deepStrictEqual(
+            splitTrailers(msg), { body: msg, trailers: [] });
+    });
+
+    test('Subject is not a trailer', () => {
+        assert.deepStrictEqual(
+            splitTrailers("fix: typo"), { body: "fix: typo", trailers: [] });
+    });
+
+    test('Round trip', () => {
+        const trailers = ["Signed-off-by: A <a@b>", "Reviewed-by: B <b@c>"];
+        const msg = joinTrailers("Subject\n\nBody", trailers);
+        assert.deepStrictEqual(
+            splitTrailers(msg), { body: "Subject\n\nBody", trailers });
+    });
+});
+
+suite('parsePatchHeader', () => {
+    test('Header and message', () => {
+        const header = {
+            author: "A <a@b>",
+            date: "2023-01-02T03:04:05+01:00",
+            trailers: ["Acked-by: B <b@c>"],
+        };
+        const text = `${formatPatchHeader(header)}\n\nSubject\n\nBody\n`;
+        assert.deepStrictEqual(
+            parsePatchHeader(text), { header, message: "Subject\n\nBody" });
+    });
+
+    test('Trailers of the message are added to the header', () => {
+        const text = "Author: A <a@b>\nDate: 2023\nAcked-by: B <b@c>\n\n" +
+            "Subject\n\nSigned-off-by: A <a@b>\nAcked-by: B <b@c>";
+        assert.deepStrictEqual(parsePatchHeader(text), {
+            header: {
+                author: "A <a@b>",
+                date: "2023",
+                trailers: ["Acked-by: B <b@c>", "Signed-off-by: A <a@b>"],
+            },
+            message: "Subject",
+        });
+    });
+
+    test('Message without header', () => {
+        assert.deepStrictEqual(parsePatchHeader("fix: typo\n\nBody"), {
+            header: { author: '', date: '', trailers: [] },
+            message: "fix: typo\n\nBody",
+        });
+    });
+
+    test('Header without message', () => {
+        const text = "Author: \nDate: \nSigned-off-by: A <a@b>\nCc: ";
+        assert.deepStrictEqual(parsePatchHeader(text), {
+            header: {
+                author: '', date: '', trailers: ["Signed-off-by: A <a@b>"],
+            },
+            message: "",
+        });
+    });
+});
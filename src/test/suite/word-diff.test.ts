@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { wordDiff } from '../../word-diff';
+
+suite('wordDiff', () => {
+    test('Changed word', () => {
+        assert.deepStrictEqual(
+            wordDiff("let x = foo(a);", "let x = bar(a);"),
+            [[{ start: 8, end: 11 }], [{ start: 8, end: 11 }]]);
+    });
+
+    test('Added and removed words', () => {
+        assert.deepStrictEqual(
+            wordDiff("return a + b;", "return a;"),
+            [[{ start: 8, end: 12 }], []]);
+        assert.deepStrictEqual(
+            wordDiff("return a;", "return a + b;"),
+            [[], [{ start: 8, end: 12 }]]);
+    });
+
+    test('Adjacent changes are merged into one range', () => {
+        assert.deepStrictEqual(
+            wordDiff("const value = first(alpha) + second;",
+                "const value = other.fn + second;"),
+            [[{ start: 14, end: 26 }], [{ start: 14, end: 22 }]]);
+    });
+
+    test('Identical lines have no changes', () => {
+        assert.deepStrictEqual(wordDiff("same line", "same line"), [[], []]);
+    });
+
+    test('Dissimilar lines are not compared', () => {
+        assert.strictEqual(
+            wordDiff("completely different", "nothing in common here"),
+            null);
+    });
+
+    test('Long lines are not compared', () => {
+        const line = "x ".repeat(300);
+        assert.strictEqual(wordDiff(line, line + "y"), null);
+    });
+});
@@ -5,21 +5,29 @@ import * as os from 'os';
 import * as fs from 'fs';
 import * as fs_prom from 'fs/promises';
 import * as path from 'path';
-import { spawn } from 'child_process';
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
 import { log, info } from './extension';
 import { RepositoryInfo } from './repo';
 import { getStGitConfig } from './config';
 import { hasStGit2 } from './git';
+import { operationQueue } from './queue';
+import { classifyError, reportClassifiedError } from './errors';
 
 type Command = "stg" | "git";
 
-interface RunOpts {
+export interface RunOpts {
     trim?: boolean,
     env?: { [key: string]: string },
     cwd?: string,
     stdin?: string,
-    errorMsg?: string,
+    // Message reported on failure, optionally derived from stderr
+    errorMsg?: string | ((stderr: string) => string | undefined),
     inhibitLogging?: boolean,
+    cancellation?: vscode.CancellationToken,
+    // Repeats the failed operation including its follow-up steps, offered
+    // when reporting errors; resolves to true on success
+    retry?: () => Promise<boolean>,
 }
 
 interface CommandResult {
@@ -28,15 +36,131 @@ interface CommandResult {
     ecode: number,
 }
 
+// Number of running processes and the time the last process modifying
+// the repository finished
+let runningCommands = 0;
+let lastMutationFinished = 0;
+
+/**
+ * Check if processes spawned by the extension are running, or if a
+ * process modifying the repository finished very recently. File system
+ * events seen during this time are most likely caused by the extension
+ * itself.
+ * @param graceMs time after the last modification to still report busy
+ */
+export function isRunningCommands(graceMs = 500): boolean {
+    return runningCommands > 0 || Date.now() - lastMutationFinished < graceMs;
+}
+
+/**
+ * Count a process not started by {@link runCommand} as a running command
+ * modifying the repository, for the purpose of {@link isRunningCommands}.
+ * @param finished promise resolved when the process has exited
+ */
+export async function trackRunningCommand<T>(finished: Promise<T>) {
+    runningCommands++;
+    try {
+        return await finished;
+    } finally {
+        runningCommands--;
+        lastMutationFinished = Date.now();
+    }
+}
+
+// Subcommands which never modify the repository
+const READ_ONLY_SUBCOMMANDS: { [c in Command]: readonly string[] } = {
+    git: [
+        'blame', 'cat-file', 'diff', 'diff-files', 'diff-index', 'diff-tree',
+        'for-each-ref', 'log', 'ls-files', 'ls-tree', 'merge-base',
+        'rev-list', 'rev-parse', 'show', 'var',
+    ],
+    stg: ['files', 'id', 'log', 'series', 'show', 'status', 'top', 'version'],
+};
+
+// Subcommands which only access remotes and therefore never change the
+// state read by the extension
+const REMOTE_SUBCOMMANDS: { [c in Command]: readonly string[] } = {
+    git: ['fetch', 'push'],
+    stg: [],
+};
+
+function isReadOnly(command: Command, args: string[]): boolean {
+    const [subcommand, ...rest] = args;
+    if (READ_ONLY_SUBCOMMANDS[command].includes(subcommand))
+        return true;
+    if (command !== 'git')
+        return false;
+    switch (subcommand) {
+    case 'config':
+        return rest.includes('--get');
+    case 'symbolic-ref':
+    case 'remote':
+        return rest.filter(x => !x.startsWith('-')).length <= 1;
+    case 'branch':
+        return rest.every(x => ['-r', '--list'].includes(x));
+    }
+    return false;
+}
+
+/**
+ * Kill a process spawned with {@link spawnOptionsForKill}, together with
+ * the processes it has started. Killing only the direct child is not
+ * enough since e.g. ssh started by git keeps the output pipes open.
+ */
+export function killProcessTree(proc: ChildProcess) {
+    try {
+        if (proc.pid && process.platform !== 'win32')
+            process.kill(-proc.pid, 'SIGTERM');
+        else
+            proc.kill();
+    } catch (e) {
+        proc.kill();
+    }
+}
+
+/** Spawn options making the process killable by {@link killProcessTree} */
+export const spawnOptionsForKill = {
+    detached: process.platform !== 'win32',
+};
+
 /**
- * Run a process to completion while capturing stdout and stdin.
+ * Run a process to completion while capturing stdout and stdin. Commands
+ * modifying the repository are serialized, and reads are deferred until
+ * the modifications queued before them have completed.
  * @param command the command to run
  * @param args command arguments
  * @param opts spawn and output trim options
- * @returns process output and error code (-1 if the spawn failed)
+ * @returns process output and error code (-1 if the spawn failed or the
+ *  command was cancelled)
  */
 export async function runCommand(
     command: Command, args: string[], opts?: RunOpts
+): Promise<CommandResult> {
+    // The working directory is resolved before queueing since looking up
+    // the repository may itself require running commands
+    const cwd = opts?.cwd
+        ?? (await RepositoryInfo.getSelectedRepo())?.topLevelDir;
+    if (!cwd)
+        return { stdout: "", stderr: "", ecode: -1 };
+    const spawnOpts = { ...opts, cwd };
+    if (isReadOnly(command, args)) {
+        const key = (opts?.stdin || opts?.cancellation) ? null
+            : JSON.stringify([command, args, cwd, opts?.env, opts?.trim]);
+        return operationQueue.read(
+            key, () => spawnCommand(command, args, spawnOpts, false));
+    }
+    // Arguments are left out since they may contain multi-line messages
+    const description = `${command} ${args[0]}`;
+    const result = await operationQueue.mutate(
+        description, () => spawnCommand(command, args, spawnOpts, true), {
+            blocksReads: !REMOTE_SUBCOMMANDS[command].includes(args[0]),
+        });
+    return result ?? { stdout: "", stderr: "Operation cancelled", ecode: -1 };
+}
+
+async function spawnCommand(
+    command: Command, args: string[], opts: RunOpts & { cwd: string },
+    mutation: boolean,
 ): Promise<CommandResult> {
     let cmd: string;
     const config = getStGitConfig();
@@ -47,18 +171,18 @@ export async function runCommand(
     else
         throw new Error("Unexpected command");
 
-    const cwd = opts?.cwd
-        ?? (await RepositoryInfo.getSelectedRepo())?.topLevelDir;
-    if (!cwd)
-        return { stdout: "", stderr: "", ecode: -1 };
-    const env = opts?.env ? { ...process.env, ...opts.env } : undefined;
-    const stdinPipe = opts?.stdin ? 'pipe' : 'ignore';
+    if (opts.cancellation?.isCancellationRequested)
+        return { stdout: "", stderr: "Cancelled", ecode: -1 };
+    const cwd = opts.cwd;
+    const env = opts.env ? { ...process.env, ...opts.env } : undefined;
+    const stdinPipe = opts.stdin ? 'pipe' : 'ignore';
     const proc = spawn(cmd, args, {
+        ...spawnOptionsForKill,
         cwd: cwd,
         env: env,
         stdio: [stdinPipe, 'pipe', 'pipe']
     });
-    if (opts?.stdin) {
+    if (opts.stdin) {
         proc.stdin!.write(opts.stdin);
         proc.stdin!.end();
     }
@@ -67,17 +191,49 @@ export async function runCommand(
     proc.stdout!.on('data', (s) => { data.push(s); });
     proc.stderr!.on('data', (s) => { errorData.push(s); });
 
+    // Kill the process if it is cancelled or runs for too long
+    let killReason: string | null = null;
+    const kill = (reason: string) => {
+        killReason = reason;
+        killProcessTree(proc);
+    };
+    const timeout = config.commandTimeout(command, args[0]);
+    const timer = timeout ? setTimeout(
+        () => kill(`Timed out after ${timeout} seconds`), timeout * 1000)
+        : null;
+    const cancellation = opts.cancellation?.onCancellationRequested(
+        () => kill("Cancelled"));
+
     let exitCode = -1;
+    runningCommands++;
     await new Promise<void>((resolve, _) => {
         proc.on('close', (code) => { exitCode = code ?? 1; resolve(); });
         proc.on('error', (err) => { exitCode = -1; resolve(); });
     });
-    if (exitCode !== 0 && !opts?.inhibitLogging)
-        log(['[failed]', command, ...args].join(' '));
+    runningCommands--;
+    if (mutation)
+        lastMutationFinished = Date.now();
+    if (timer)
+        clearTimeout(timer);
+    cancellation?.dispose();
+
     const stdout = data.join('');
+    const stderr = errorData.join('').trimEnd();
+    if (killReason) {
+        log(['[killed]', command, ...args].join(' '));
+        if (stderr)
+            log(stderr);
+        return {
+            stdout: "",
+            stderr: `${killReason}: ${command} ${args[0]}`,
+            ecode: -1,
+        };
+    }
+    if (exitCode !== 0 && !opts.inhibitLogging)
+        log(['[failed]', command, ...args].join(' '));
     return {
-        stdout: opts?.trim !== false ? stdout.trimEnd() : stdout,
-        stderr: errorData.join('').trimEnd(),
+        stdout: opts.trim !== false ? stdout.trimEnd() : stdout,
+        stderr: stderr,
         ecode: exitCode,
     };
 }
@@ -104,8 +260,14 @@ export async function runAndReportErrors(
             if (m)
                 estr = m;
         }
-        if (opts?.errorMsg) {
-            info(opts.errorMsg);
+        const errorMsg = typeof opts?.errorMsg === 'function' ?
+            opts.errorMsg(estr) : opts?.errorMsg;
+        const classified = classifyError(command, args, estr, opts);
+        if (classified) {
+            reportClassifiedError(classified);
+            log(estr);
+        } else if (errorMsg) {
+            info(errorMsg);
             log(estr);
         } else {
             const [part1, ...rest] = estr.split("\n");
@@ -117,6 +279,23 @@ export async function runAndReportErrors(
     return result;
 }
 
+/**
+ * Run a command while showing a cancellable progress notification.
+ * Cancelling kills the process. Errors are reported as in
+ * {@link runAndReportErrors}.
+ * @param title progress notification title
+ */
+export async function runWithProgress(
+    title: string, command: Command, args: string[], opts?: RunOpts
+): Promise<CommandResult> {
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: title,
+        cancellable: true,
+    }, (progress, token) => runAndReportErrors(
+        command, args, { ...opts, cancellation: token }));
+}
+
 /**
  * Create a temporary directory and run calllback. The
  * directory, and its contents, is removed when the callback is finished.
@@ -0,0 +1,97 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+import * as vscode from 'vscode';
+import { workspace } from 'vscode';
+import { RepositoryInfo } from './repo';
+import { isRunningCommands } from './util';
+
+/** Parts of the repository state affected by a file system change */
+export type RepositoryChange =
+    'head' | 'index' | 'workTree' | 'patches' | 'history';
+
+// Files in the git directory and the state they affect
+const GIT_DIR_PATTERNS: [string, RepositoryChange[]][] = [
+    ['HEAD', ['head', 'patches', 'history', 'index']],
+    ['index', ['index', 'workTree']],
+    ['packed-refs', ['patches', 'history']],
+    ['refs/heads/**', ['patches', 'history', 'index']],
+    ['refs/stacks/**', ['patches', 'history']],
+    ['refs/patches/**', ['patches']],
+    ['patches/**', ['patches']],
+];
+
+/**
+ * Watches the git directory and the work tree of a repository, and reports
+ * which parts of the repository state changed. Changes are debounced, and
+ * deferred while processes spawned by the extension are running.
+ */
+export class RepositoryWatcher {
+    private readonly watchers: vscode.FileSystemWatcher[] = [];
+    private pending = new Set<RepositoryChange>();
+    private timer: NodeJS.Timeout | null = null;
+    private workTreeTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        readonly repo: RepositoryInfo,
+        private readonly onChange: (changes: Set<RepositoryChange>) => void,
+    ) {
+        const gitDir = vscode.Uri.file(repo.gitDir);
+        for (const [pattern, changes] of GIT_DIR_PATTERNS) {
+            this.watch(new vscode.RelativePattern(gitDir, pattern),
+                () => this.changed(changes));
+        }
+        const topDir = vscode.Uri.file(repo.topLevelDir);
+        this.watch(new vscode.RelativePattern(topDir, '**'), (uri) => {
+            if (!uri.fsPath.startsWith(repo.gitDir))
+                this.workTreeChanged();
+        });
+    }
+
+    dispose() {
+        if (this.timer)
+            clearTimeout(this.timer);
+        if (this.workTreeTimer)
+            clearTimeout(this.workTreeTimer);
+        this.watchers.forEach(w => w.dispose());
+    }
+
+    private watch(
+        pattern: vscode.RelativePattern, callback: (uri: vscode.Uri) => void
+    ) {
+        const watcher = workspace.createFileSystemWatcher(pattern);
+        watcher.onDidChange(callback);
+        watcher.onDidCreate(callback);
+        watcher.onDidDelete(callback);
+        this.watchers.push(watcher);
+    }
+
+    private changed(changes: RepositoryChange[]) {
+        changes.forEach(c => this.pending.add(c));
+        if (this.timer)
+            clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.flush(), 200);
+    }
+
+    private workTreeChanged() {
+        if (this.workTreeTimer)
+            clearTimeout(this.workTreeTimer);
+        this.workTreeTimer = setTimeout(() => {
+            this.workTreeTimer = null;
+            this.changed(['workTree']);
+        }, 1000);
+    }
+
+    private flush() {
+        if (isRunningCommands()) {
+            // Report the changes once the extension is done
+            this.timer = setTimeout(() => this.flush(), 200);
+            return;
+        }
+        this.timer = null;
+        const changes = this.pending;
+        this.pending = new Set();
+        if (changes.size)
+            this.onChange(changes);
+    }
+}
@@ -0,0 +1,75 @@
+// Copyright (C) 2022-2023, Samuel Rydh <samuelrydh@gmail.com>
+// This code is licensed under the BSD 2-Clause license.
+
+/** Characters [start, end) of a line */
+export interface CharRange {
+    start: number;
+    end: number;
+}
+
+// Words, runs of whitespace and single punctuation characters
+const TOKEN = /\w+|\s+|[^\w\s]/g;
+
+// Lines with more tokens than this are not compared
+const MAX_TOKENS = 500;
+
+// Minimal fraction of unchanged characters for highlighting to be useful
+const MIN_SIMILARITY = 0.4;
+
+function addRange(ranges: CharRange[], start: number, end: number) {
+    const last = ranges[ranges.length - 1];
+    if (last?.end === start)
+        last.end = end;
+    else
+        ranges.push({ start, end });
+}
+
+/**
+ * Find the changed words of a line which was replaced by another line.
+ * @param oldLine removed line
+ * @param newLine added line
+ * @returns changed ranges of the removed and the added line, or null if
+ *  the lines are too long or too different to be compared
+ */
+export function wordDiff(
+    oldLine: string, newLine: string
+): [CharRange[], CharRange[]] | null {
+    const a = oldLine.match(TOKEN) ?? [];
+    const b = newLine.match(TOKEN) ?? [];
+    if (a.length > MAX_TOKENS || b.length > MAX_TOKENS)
+        return null;
+
+    // lcs[i][j] is the longest common subsequence of a[i:] and b[j:]
+    const lcs = Array.from(
+        { length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const removed: CharRange[] = [];
+    const added: CharRange[] = [];
+    let [i, j, posA, posB, common] = [0, 0, 0, 0, 0];
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            if (a[i].trim())
+                common += a[i].length;
+            posA += a[i++].length;
+            posB += b[j++].length;
+        } else if (j < b.length &&
+            (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            addRange(added, posB, posB + b[j].length);
+            posB += b[j++].length;
+        } else {
+            addRange(removed, posA, posA + a[i].length);
+            posA += a[i++].length;
+        }
+    }
+    const length = Math.max(
+        oldLine.replace(/\s/g, "").length, newLine.replace(/\s/g, "").length);
+    if (common < length * MIN_SIMILARITY)
+        return null;
+    return [removed, added];
+}